@@ -13,37 +13,80 @@
  */
 
 import type { Plugin } from '@opencode-ai/plugin';
-import type { FilePart, Part, Permission, ReasoningPart, TextPart, ToolPart } from '@opencode-ai/sdk';
-import { VicoaClient } from './plugin/vicoa-client.js';
+import type { Event, FilePart, Part, PatchPart, Permission, ReasoningPart, TextPart } from '@opencode-ai/sdk';
+import { VicoaClient, type VicoaMessage } from './plugin/vicoa-client.js';
 import { MessagePoller } from './plugin/message-poller.js';
+import { MessageStreamer } from './plugin/message-streamer.js';
+import { ToolCardTracker } from './plugin/tool-cards.js';
 import { getApiKey } from './plugin/credentials.js';
-import { formatFilePart, formatReasoningPart, formatToolPart } from './plugin/format-utils.js';
+import { formatFilePart, formatPatchPart, formatReasoningPart, stripToolResults } from './plugin/format-utils.js';
 import {
   buildPermissionOptions,
+  correlatePermissionReply,
+  formatAmbiguousReplyNotice,
+  formatLateReplyNotice,
   formatPermissionRequest,
-  parsePermissionReply,
-  type PermissionOption,
+  formatPermissionSubject,
+  formatRejectionGuidance,
+  formatResolvedPermission,
+  formatPolicyNotice,
+  formatTimeoutNotice,
+  formatTimeoutReminder,
+  getPermissionToken,
+  getPermissionType,
+  type PermissionResolution,
 } from './plugin/permission.js';
+import { PermissionPolicy } from './plugin/permission-policy.js';
+import { PermissionTimeouts } from './plugin/permission-timeouts.js';
+import { loadPluginConfig } from './plugin/config.js';
+import { AuditLog, buildAuditEntry } from './plugin/audit-log.js';
+import { Redactor } from './plugin/redaction.js';
+import { MessageCipher } from './plugin/encryption.js';
+import { VerbositySettings, type VerbosityProfile } from './plugin/verbosity.js';
+import { EchoTracker } from './plugin/echo-suppression.js';
+import { PromptQueue } from './plugin/prompt-queue.js';
+import { formatModelRef, getDefaultModel, sendModelToUi } from './plugin/models.js';
+import { CatalogSync } from './plugin/catalog.js';
+import {
+  createMessageId,
+  isTuiAttached,
+  resolvePromptMode,
+  type PromptModel,
+} from './plugin/prompt-submission.js';
 import { randomUUID } from 'crypto';
 import * as os from 'os';
 import {
   OPENCODE_SLASH_AGENT_TYPE,
   handleSlashCommand,
+  parseSlashCommand,
   scanOpencodeCommands,
   type OpencodeCommandMap,
 } from './plugin/commands.js';
 import { handleControlCommand } from './plugin/control.js';
-import { log } from './plugin/utils.js';
+import { log, parsePositiveInt } from './plugin/utils.js';
 import { formatProjectPath } from './plugin/path-utils.js';
+import { SessionStore, type StoredSession } from './plugin/session-store.js';
+import { backfillHistory } from './plugin/history-backfill.js';
+import {
+  SessionRegistry,
+  createSessionState,
+  type MessagePartsState,
+  type SessionContext,
+  type SessionStatusType,
+} from './plugin/session-registry.js';
 
 /**
  * Plugin version - increment on changes
  */
 const PLUGIN_VERSION = '0.1.0';
 
-let lastSessionTitle: string | null = null;
-let currentSessionId: string | undefined;
 let preferredAgent: string | undefined;
+// Model of the last prompt OpenCode saw; dashboard prompts sent through the
+// session API use it so they don't silently fall back to the default model.
+let preferredModel: PromptModel | undefined;
+// Set when the model was picked on the dashboard rather than in the TUI; the
+// TUI's prompt box would use its own model, so prompts then skip it.
+let modelPickedOnDashboard = false;
 
 // The agent that the TUI *thinks* is active.  Updated every time we see a
 // user-role message.updated event (the UserMessage.agent field is the agent
@@ -51,45 +94,19 @@ let preferredAgent: string | undefined;
 // steps are needed to land on a target agent.
 let tuiCurrentAgent: string | undefined;
 
-// Track current session status to detect if OpenCode is idle
-let currentSessionStatus: 'idle' | 'busy' | 'retry' | undefined;
-
-// Track messages that came from the UI (to avoid sending them back)
-// Keep a simple FIFO buffer of message content
-const messagesFromUI: string[] = [];
-const MAX_UI_MESSAGES = 50;
-
-// ── pending permission state ──────────────────────────────────────────────
-// When a permission.asked event arrives we forward it to Vicoa as a
-// requires_user_input message and record the permission here so that when
-// the user's reply comes back through the poller we can call OpenCode's
-// permission-reply API instead of forwarding the text as a prompt.
-interface PendingPermission {
-  permission: Permission;
-  options: PermissionOption[];           // the exact options we sent to the UI
-  vicoaMessageId: string | null;         // the Vicoa message we sent (for logging)
-}
-const pendingPermissions = new Map<string, PendingPermission>();
+// Prompts we submitted from the dashboard (to avoid sending them back)
+const dashboardEchoes = new EchoTracker();
 
-// Track assistant message IDs we've already forwarded to Vicoa (avoid duplicates)
-const sentAssistantMessageIds = new Set<string>();
-const sentAssistantMessageQueue: string[] = [];
 const MAX_SENT_MESSAGE_IDS = 200;
+const MAX_RESOLVED_PERMISSIONS = 50;
 
-type MessagePartsState = {
-  order: string[];
-  parts: Map<string, string>;
-  textByPartId: Map<string, string>;
-};
-
-// Track message parts by ID (for incremental updates)
-const messagePartsById = new Map<string, MessagePartsState>();
+type LogFn = (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
 
-function getMessageState(messageId: string): MessagePartsState {
-  let state = messagePartsById.get(messageId);
+function getMessageState(ctx: SessionContext, messageId: string): MessagePartsState {
+  let state = ctx.messagePartsById.get(messageId);
   if (!state) {
     state = { order: [], parts: new Map(), textByPartId: new Map() };
-    messagePartsById.set(messageId, state);
+    ctx.messagePartsById.set(messageId, state);
   }
   return state;
 }
@@ -107,14 +124,6 @@ function setPartContent(state: MessagePartsState, partId: string, content: strin
   state.parts.set(partId, content);
 }
 
-function formatToolPartSafe(part: ToolPart): string {
-  try {
-    return formatToolPart(part);
-  } catch {
-    return `Using tool: ${part.tool}`;
-  }
-}
-
 function formatFilePartSafe(part: FilePart): string {
   try {
     return formatFilePart(part);
@@ -124,16 +133,24 @@ function formatFilePartSafe(part: FilePart): string {
 }
 
 
-function formatReasoningPartSafe(part: ReasoningPart): string {
+function formatReasoningPartSafe(part: ReasoningPart, profile: VerbosityProfile): string {
   try {
-    return formatReasoningPart(part);
+    return formatReasoningPart(part, profile);
   } catch {
     return '';
   }
 }
 
-function buildMessageContent(messageId: string): string {
-  const state = messagePartsById.get(messageId);
+function formatPatchPartSafe(part: PatchPart): string {
+  try {
+    return formatPatchPart(part);
+  } catch {
+    return 'Patch updated';
+  }
+}
+
+function buildMessageContent(ctx: SessionContext, messageId: string): string {
+  const state = ctx.messagePartsById.get(messageId);
   if (!state) {
     return '';
   }
@@ -146,14 +163,14 @@ function buildMessageContent(messageId: string): string {
 }
 
 // Accumulates non-tool parts into the per-message state for later assembly.
-// Tool parts are intentionally excluded — they are flushed as individual
-// messages by the event handler as soon as they reach a terminal state.
-function handlePartUpdate(part: Part, delta?: string) {
+// Tool parts are intentionally excluded — each one is tracked as its own
+// live card by ToolCardTracker. What is kept follows the verbosity profile.
+function handlePartUpdate(ctx: SessionContext, part: Part, profile: VerbosityProfile, delta?: string) {
   if (!('messageID' in part) || !part.messageID) {
     return;
   }
 
-  const state = getMessageState(part.messageID);
+  const state = getMessageState(ctx, part.messageID);
 
   switch (part.type) {
     case 'text': {
@@ -164,20 +181,23 @@ function handlePartUpdate(part: Part, delta?: string) {
       return;
     }
 
-    // file parts — keep images (useful in UI), drop everything else
-    // (source dumps are noise; the tool usage line already names the file)
+    // file parts — by default keep images (useful in UI) and drop everything
+    // else (source dumps are noise; the tool usage line already names the file)
     case 'file':
-      if (part.mime?.startsWith('image/') && part.url) {
+      if (profile.files === 'all' || (profile.files === 'images' && part.mime?.startsWith('image/') && part.url)) {
         setPartContent(state, part.id, formatFilePartSafe(part));
       }
       return;
 
-    // patch parts are internal bookkeeping — skip them entirely
+    // patch parts are internal bookkeeping — only the chattier profiles show them
     case 'patch':
+      if (profile.patches) {
+        setPartContent(state, part.id, formatPatchPartSafe(part));
+      }
       return;
 
     case 'reasoning': {
-      const content = formatReasoningPartSafe(part);
+      const content = formatReasoningPartSafe(part, profile);
       setPartContent(state, part.id, content);
       return;
     }
@@ -188,59 +208,18 @@ function handlePartUpdate(part: Part, delta?: string) {
   }
 }
 
-// When the user types @filename or @folder, OpenCode resolves it by calling
-// the read/list tool and appending the result into the user message. Forms:
-//   1) "Called the Read tool with the following input: {…}\n<file>…</file>"
-//   2) bare "<file>…</file>" blocks (sometimes without the header)
-//   3) unclosed "<file>" tag followed by content (when both folder + file selected)
-//   4) directory listings (folder tree with indented file names)
-// Strip all of these so only the real prompt survives.
-const TOOL_RESULT_HEADER = /Called the \w+ tool with the following input:[\s\S]*/;
-const FILE_BLOCK = /<file>[\s\S]*?<\/file>/g;
-const UNCLOSED_FILE_TAG = /<file>[\s\S]*/g;  // Match <file> tag without closing
-const DIRECTORY_LISTING = /^\/[^\n]+\/\n(?:[ \t]+[^\n]+\n)+/gm;  // Match directory tree structure
-
-function stripToolResults(text: string): string {
-  let cleaned = text;
-
-  // Strip tool result headers
-  cleaned = cleaned.replace(TOOL_RESULT_HEADER, '');
-
-  // Strip closed file blocks first
-  cleaned = cleaned.replace(FILE_BLOCK, '');
-
-  // Strip unclosed file tags with content (must come after closed blocks)
-  cleaned = cleaned.replace(UNCLOSED_FILE_TAG, '');
-
-  // Strip directory listings (folder path + indented file list)
-  cleaned = cleaned.replace(DIRECTORY_LISTING, '');
-
-  return cleaned;
+function isSessionBusy(ctx: SessionContext): boolean {
+  return ctx.status === 'busy' || ctx.status === 'retry';
 }
 
-function normalizeMessage(content: string): string {
-  return content.replace(/\r\n/g, '\n').trim();
-}
-
-// Helper to add UI message with size limit (FIFO eviction)
-function addUIMessage(content: string) {
-  messagesFromUI.push(normalizeMessage(content));
-
-  // If buffer exceeds limit, remove first 40 messages
-  if (messagesFromUI.length > MAX_UI_MESSAGES) {
-    messagesFromUI.splice(0, 40);
-  }
-}
-
-// Helper to check and remove UI message
-function isFromUI(content: string): boolean {
-  content = normalizeMessage(content);
-  const index = messagesFromUI.indexOf(content);
-  if (index !== -1) {
-    messagesFromUI.splice(index, 1); // Remove it immediately
-    return true;
-  }
-  return false;
+// A prompt is being submitted: treat the session as busy until OpenCode
+// reports its status, so a prompt right behind it is queued, not raced in.
+// Set before submitting, since the turn's own status events can arrive
+// before the submission returns. Returns the status to restore on failure.
+function markSubmitted(ctx: SessionContext): SessionStatusType | undefined {
+  const previous = ctx.status;
+  ctx.status = 'busy';
+  return previous;
 }
 
 function trackSentMessage(set: Set<string>, queue: string[], messageId: string) {
@@ -259,9 +238,29 @@ function trackSentMessage(set: Set<string>, queue: string[], messageId: string)
 }
 
 
+// Most events carry the session they belong to in one of a few places
+function getEventSessionId(event: Event): string | undefined {
+  const props = event.properties as Record<string, any> | undefined;
+  if (typeof props?.sessionID === 'string') {
+    return props.sessionID;
+  }
+  if (typeof props?.part?.sessionID === 'string') {
+    return props.part.sessionID;
+  }
+  if (props?.info) {
+    if (event.type.startsWith('session.') && typeof props.info.id === 'string') {
+      return props.info.id;
+    }
+    if (typeof props.info.sessionID === 'string') {
+      return props.info.sessionID;
+    }
+  }
+  return undefined;
+}
+
 async function sendAgentSwitchToUi(
   vicoaClient: VicoaClient,
-  logClient: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void,
+  logClient: LogFn,
   agentName: string,
 ): Promise<void> {
   const controlPayload = JSON.stringify({ type: 'control', setting: 'agent_type', value: agentName.toLowerCase() });
@@ -273,7 +272,7 @@ function startCommandSyncSubprogress(
   vicoaClient: VicoaClient,
   projectPath: string,
   homeDir: string,
-  logClient: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void,
+  logClient: LogFn,
 ): void {
   // Run sync on a separate tick so plugin startup and poller wiring never wait
   // for command scan/sync work to even begin.
@@ -299,6 +298,7 @@ function startCommandSyncSubprogress(
 
 export const VicoaPlugin: Plugin = async (context) => {
   const { client, directory } = context;
+  const logClient: LogFn = (level, message) => log(client, level, message);
 
   // Get API key from environment or credentials file
   const apiKey = getApiKey();
@@ -312,114 +312,509 @@ export const VicoaPlugin: Plugin = async (context) => {
 
   log(client, 'info', `[Vicoa v${PLUGIN_VERSION}] Initializing...`);
 
-  // Generate or reuse agent instance ID
-  const agentInstanceId = process.env.VICOA_AGENT_INSTANCE_ID || randomUUID();
   const agentName = process.env.VICOA_AGENT_NAME || 'OpenCode';
+  const projectPath = directory || process.cwd();
+  const homeDir = os.homedir();
 
-  // Create Vicoa client
-  const vicoaClient = new VicoaClient({
-    apiKey,
-    baseUrl,
-    agentType: agentName,
-    agentInstanceId,
-    logFunc: (level: string, msg: string) => {
-      const logLevel = (level as 'debug' | 'info' | 'warn' | 'error') || 'info';
-      log(client, logLevel, `[Vicoa] ${msg}`);
-    },
-  });
+  // Format project path to use ~ for home directory (consistent with Claude wrapper)
+  const formattedProjectPath = formatProjectPath(projectPath);
 
-  // Register agent instance
-  try {
-    const projectPath = directory || process.cwd();
-    const homeDir = os.homedir();
+  const pluginConfig = loadPluginConfig(projectPath, logClient);
+  const permissionPolicy = new PermissionPolicy(pluginConfig.permissions.rules, projectPath, logClient);
+  if (permissionPolicy.size > 0) {
+    log(client, 'info', `[Vicoa] Loaded ${permissionPolicy.size} permission rules`);
+  }
+  const permissionTimeouts = new PermissionTimeouts(pluginConfig.permissions.timeouts, logClient);
+  const auditLog = new AuditLog(pluginConfig.audit, logClient);
+  // Shared by every agent instance's client so nothing leaves unredacted
+  const redactor = new Redactor(pluginConfig.redaction, logClient);
+  // What gets forwarded; switchable from the dashboard
+  const verbosity = new VerbositySettings(pluginConfig.verbosity, logClient);
+
+  // End-to-end encryption fails closed: without a usable key nothing is sent
+  let cipher: MessageCipher | undefined;
+  if (pluginConfig.encryption.enabled) {
+    cipher = new MessageCipher(pluginConfig.encryption, logClient);
+    try {
+      cipher.init();
+    } catch (error) {
+      log(client, 'error', `[Vicoa v${PLUGIN_VERSION}] Disabled: end-to-end encryption is on but the key could not be loaded (${error})`);
+      return {};
+    }
+  }
+
+  // Answer a permission through OpenCode's API; throws if OpenCode refuses
+  const replyToPermission = async (
+    permission: Permission,
+    response: 'once' | 'always' | 'reject',
+  ): Promise<void> => {
+    const { error } = await client.postSessionIdPermissionsPermissionId({
+      path: { id: permission.sessionID, permissionID: permission.id },
+      body: { response },
+    });
+    if (error) {
+      throw new Error(JSON.stringify(error));
+    }
+  };
 
-    // Format project path to use ~ for home directory (consistent with Claude wrapper)
-    const formattedProjectPath = formatProjectPath(projectPath);
-    await vicoaClient.registerAgentInstance(formattedProjectPath, homeDir);
-    log(client, "info", `[Vicoa] Registered session: ${agentInstanceId}`);
+  const queueRecheckMs = parsePositiveInt(process.env.VICOA_QUEUE_RECHECK_MS, 30000);
+
+  const promptMode = resolvePromptMode(process.env.VICOA_PROMPT_MODE);
+  const tuiAttached = promptMode === 'tui' || (promptMode === 'auto' && isTuiAttached());
+  log(client, 'info', `[Vicoa] Dashboard prompts go through ${tuiAttached ? 'the TUI for the shown session' : 'the session API'}`);
+
+  // Remembers which agent instance mirrors which session across restarts
+  const sessionStore = new SessionStore(logClient);
+
+  // Register an agent instance with its own Vicoa client, poller and
+  // per-session state — or, given a stored mapping, re-attach to the one a
+  // previous run registered. Throws if registration fails.
+  const startAgentInstance = async (
+    sessionId: string | undefined,
+    agentInstanceId: string,
+    resumeFrom?: StoredSession,
+  ): Promise<SessionContext> => {
+    const vicoaClient = new VicoaClient({
+      apiKey,
+      baseUrl,
+      agentType: agentName,
+      agentInstanceId,
+      logFunc: (level: string, msg: string) => {
+        const logLevel = (level as 'debug' | 'info' | 'warn' | 'error') || 'info';
+        log(client, logLevel, `[Vicoa] ${msg}`);
+      },
+      onLastMessageIdChange: (messageId) => {
+        if (ctx.sessionId) {
+          sessionStore.update(ctx.sessionId, { lastMessageId: messageId });
+        }
+      },
+      redactor,
+      cipher,
+    });
+
+    if (resumeFrom) {
+      if (!(await vicoaClient.attachAgentInstance())) {
+        throw new Error(`Agent instance ${agentInstanceId} no longer exists`);
+      }
+      log(client, "info", `[Vicoa] Re-attached session ${sessionId} to ${agentInstanceId}`);
+    } else {
+      await vicoaClient.registerAgentInstance(formattedProjectPath, homeDir);
+      log(client, "info", `[Vicoa] Registered session: ${agentInstanceId}`);
+    }
+    vicoaClient.startOutbox();
 
     // Non-critical startup work runs in background to reduce startup latency.
     void vicoaClient
-      .sendMessage('OpenCode session started, waiting for your input...')
+      .sendMessage(resumeFrom
+        ? 'OpenCode session resumed, waiting for your input...'
+        : 'OpenCode session started, waiting for your input...')
       .catch((error) => {
         log(client, "warn", `[Vicoa] Failed to send startup message: ${error}`);
       });
-
-    startCommandSyncSubprogress(vicoaClient, projectPath, homeDir, (level, message) =>
-      log(client, level, message)
+    void reportCurrentModel(vicoaClient);
+
+    // Start polling for user messages
+    const poller = new MessagePoller(
+      vicoaClient,
+      (userMessage, message) => handleDashboardMessage(ctx, userMessage, message),
+      (level: string, msg: string) => log(client, (level as 'debug' | 'info' | 'warn' | 'error') || 'info', msg),
+      {
+        getSessionStatus: () => ctx.status,
+        hasPendingPermission: () => ctx.pendingPermissions.size > 0,
+      }
     );
+
+    const ctx: SessionContext = {
+      sessionId,
+      agentInstanceId,
+      vicoaClient,
+      poller,
+      streamer: new MessageStreamer(vicoaClient, logClient),
+      toolCards: new ToolCardTracker(vicoaClient, logClient, () => verbosity.profile),
+      promptQueue: new PromptQueue(vicoaClient, logClient),
+      title: null,
+      status: undefined,
+      ...createSessionState(),
+    };
+
+    // Pick polling up where the previous run left off, and never re-post
+    // what it already forwarded
+    if (resumeFrom) {
+      vicoaClient.lastMessageId = resumeFrom.lastMessageId;
+      for (const messageId of resumeFrom.sentMessageIds) {
+        trackSentMessage(ctx.sentMessageIds, ctx.sentMessageQueue, messageId);
+      }
+    }
+
+    poller.start();
+    return ctx;
+  };
+
+  // Let the dashboard know which model prompts will use
+  const reportCurrentModel = async (vicoaClient: VicoaClient): Promise<void> => {
+    try {
+      preferredModel ??= (await getDefaultModel(client)) ?? undefined;
+      if (preferredModel) {
+        await sendModelToUi(vicoaClient, logClient, preferredModel, 'current');
+      }
+    } catch (error) {
+      log(client, 'warn', `[Vicoa] Failed to report current model: ${error}`);
+    }
+  };
+
+  // Bring the dashboard up to date with whatever the session already holds
+  const backfillSession = async (ctx: SessionContext): Promise<void> => {
+    if (!ctx.sessionId) return;
+    try {
+      const { data } = await client.session.messages({ path: { id: ctx.sessionId } });
+      const sent = backfillHistory(data ?? [], {
+        vicoaClient: ctx.vicoaClient,
+        sentMessageIds: ctx.sentMessageIds,
+        onSent: (messageId) => markMessageSent(ctx, messageId),
+        profile: verbosity.profile,
+      });
+      if (sent > 0) {
+        log(client, 'info', `[Vicoa] Backfilled ${sent} messages for session ${ctx.sessionId}`);
+      }
+    } catch (error) {
+      log(client, 'warn', `[Vicoa] Failed to backfill session history: ${error}`);
+    }
+  };
+
+  const stopAgentInstance = async (ctx: SessionContext): Promise<void> => {
+    ctx.poller.stop();
+    ctx.toolCards.dispose();
+    if (ctx.queueRecheck) {
+      clearTimeout(ctx.queueRecheck);
+      ctx.queueRecheck = null;
+    }
+    for (const permissionId of ctx.pendingPermissions.keys()) {
+      permissionTimeouts.cancel(permissionId);
+    }
+    await ctx.vicoaClient.endSession();
+  };
+
+  const registry = new SessionRegistry({
+    create: async (sessionId) => {
+      try {
+        return await startAgentInstance(sessionId, randomUUID());
+      } catch (error) {
+        log(client, 'error', `[Vicoa] Failed to register session ${sessionId}: ${error}`);
+        return null;
+      }
+    },
+    resume: async (sessionId) => {
+      const stored = sessionStore.get(sessionId);
+      if (!stored) {
+        return null;
+      }
+      try {
+        return await startAgentInstance(sessionId, stored.agentInstanceId, stored);
+      } catch (error) {
+        log(client, 'warn', `[Vicoa] Could not resume session ${sessionId}, starting a new conversation: ${error}`);
+        sessionStore.delete(sessionId);
+        return null;
+      }
+    },
+    onBind: async (ctx) => {
+      if (!ctx.sessionId) return;
+      sessionStore.update(ctx.sessionId, {
+        agentInstanceId: ctx.agentInstanceId,
+        lastMessageId: ctx.vicoaClient.lastMessageId,
+        sentMessageIds: ctx.sentMessageQueue,
+      });
+      await backfillSession(ctx);
+    },
+    discard: stopAgentInstance,
+    lookupParent: async (sessionId) => {
+      const { data } = await client.session.get({ path: { id: sessionId } });
+      return data?.parentID;
+    },
+    log: logClient,
+  });
+
+  // Register the startup agent instance right away so the dashboard shows
+  // the session immediately; the first OpenCode session seen adopts it.
+  let catalogSync: CatalogSync;
+  try {
+    const startup = await startAgentInstance(undefined, process.env.VICOA_AGENT_INSTANCE_ID || randomUUID());
+    registry.setUnbound(startup);
+    if (process.env.VICOA_AGENT_INSTANCE_ID) {
+      // Launched from the dashboard, which is already showing this instance
+      registry.markUnboundUsed();
+    }
+
+    startCommandSyncSubprogress(startup.vicoaClient, projectPath, homeDir, logClient);
+    catalogSync = new CatalogSync(client, startup.vicoaClient, OPENCODE_SLASH_AGENT_TYPE, logClient);
+    catalogSync.start();
   } catch (error) {
     log(client, "error", `[Vicoa] Failed to register: ${error}`);
     return {};
   }
 
-  // Start polling for user messages
-  const messagePoller = new MessagePoller(
-    vicoaClient,
-    async (userMessage) => {
-      log(client, "info", `[Vicoa] Received message from dashboard: ${userMessage.substring(0, 80)}${userMessage.length > 80 ? '...' : ''}`);
-
-      // Check if it's a control command (matches Claude wrapper pattern)
-      if (
-        await handleControlCommand(userMessage, {
-          client,
-          vicoaClient,
-          currentSessionId,
-          currentSessionStatus,
-          getTuiCurrentAgent: () => tuiCurrentAgent,
-          setTuiCurrentAgent: (agent) => {
-            tuiCurrentAgent = agent;
-          },
-          setPreferredAgent: (agent) => {
-            preferredAgent = agent;
-          },
-        })
-      ) {
-        await vicoaClient.updateStatus('AWAITING_INPUT');
-        return; // Control command handled
+  function markMessageSent(ctx: SessionContext, messageId: string): void {
+    trackSentMessage(ctx.sentMessageIds, ctx.sentMessageQueue, messageId);
+    if (ctx.sessionId) {
+      sessionStore.update(ctx.sessionId, { sentMessageIds: ctx.sentMessageQueue });
+    }
+  }
+
+  // Move a pending permission to the resolved list and replace its
+  // dashboard message (and buttons) with the outcome
+  function resolvePermission(ctx: SessionContext, permissionId: string, resolution: PermissionResolution): void {
+    const pending = ctx.pendingPermissions.get(permissionId);
+    if (!pending) return;
+
+    ctx.pendingPermissions.delete(permissionId);
+    permissionTimeouts.cancel(permissionId);
+    ctx.resolvedPermissions.set(permissionId, { ...pending, resolution, resolvedAt: Date.now() });
+    auditLog.record(buildAuditEntry(pending.permission, resolution.via, {
+      agentInstanceId: ctx.agentInstanceId,
+      response: resolution.response,
+      feedback: resolution.feedback,
+    }));
+    if (ctx.resolvedPermissions.size > MAX_RESOLVED_PERMISSIONS) {
+      const oldest = ctx.resolvedPermissions.keys().next().value;
+      if (oldest) ctx.resolvedPermissions.delete(oldest);
+    }
+
+    if (pending.vicoaMessageId) {
+      void ctx.vicoaClient
+        .updateMessage(
+          pending.vicoaMessageId,
+          formatResolvedPermission(pending.permission, pending.options, resolution),
+          { requiresUserInput: false },
+        )
+        .catch((error) => {
+          log(client, 'warn', `[Vicoa] Failed to update resolved permission ${permissionId}: ${error}`);
+        });
+    }
+  }
+
+  async function handleDashboardMessage(
+    ctx: SessionContext,
+    userMessage: string,
+    message?: VicoaMessage,
+  ): Promise<void> {
+    const { vicoaClient } = ctx;
+    if (!ctx.sessionId) {
+      registry.markUnboundUsed();
+    }
+    log(client, "info", `[Vicoa] Received message from dashboard: ${userMessage.substring(0, 80)}${userMessage.length > 80 ? '...' : ''}`);
+
+    // Check if it's a control command (matches Claude wrapper pattern)
+    if (
+      await handleControlCommand(userMessage, {
+        client,
+        vicoaClient,
+        currentSessionId: ctx.sessionId,
+        currentSessionStatus: ctx.status,
+        getTuiCurrentAgent: () => tuiCurrentAgent,
+        setTuiCurrentAgent: (agent) => {
+          tuiCurrentAgent = agent;
+        },
+        setPreferredAgent: (agent) => {
+          preferredAgent = agent;
+        },
+        getPreferredModel: () => preferredModel,
+        setPreferredModel: (model) => {
+          preferredModel = model;
+          modelPickedOnDashboard = true;
+        },
+        auditLog,
+        verbosity,
+        promptQueue: ctx.promptQueue,
+      })
+    ) {
+      await vicoaClient.updateStatus('AWAITING_INPUT');
+      return; // Control command handled
+    }
+
+    // ── rejection instructions ──────────────────────────────────────
+    // After "Reject with instructions", the next message is the reason
+    for (const [permId, pending] of ctx.pendingPermissions) {
+      if (pending.awaitingFeedback) {
+        await answerPermission(ctx, permId, 'reject', userMessage.trim());
+        return;
       }
+    }
 
-      // ── permission reply interception ───────────────────────────────
-      // If there is a pending permission and the user's message matches one
-      // of the options we sent, reply via OpenCode's permission API instead
-      // of forwarding as a chat prompt.
-      for (const [permId, pending] of pendingPermissions) {
-        const matched = parsePermissionReply(userMessage, pending.options);
-        if (!matched) continue;
+    // ── permission reply interception ───────────────────────────────
+    // If the user's message answers a pending permission, reply via
+    // OpenCode's permission API instead of forwarding as a chat prompt.
+    // With several pending, the reply must say which one it is for.
+    const reply = correlatePermissionReply(
+      userMessage,
+      message?.reply_to_message_id,
+      ctx.pendingPermissions,
+      ctx.resolvedPermissions,
+    );
+    if (reply.kind === 'resolved') {
+      const resolved = ctx.resolvedPermissions.get(reply.permissionId)!;
+      log(client, 'info', `[Vicoa] Dropping late reply to resolved permission ${reply.permissionId}`);
+      await vicoaClient.sendMessage(formatLateReplyNotice(resolved.permission, resolved.options, resolved.resolution));
+      return; // Do NOT forward this message as a prompt
+    }
+
+    if (reply.kind === 'ambiguous') {
+      log(client, 'info', `[Vicoa] Ambiguous permission reply with ${reply.permissionIds.length} pending`);
+      const pendingList = reply.permissionIds.map((id) => ctx.pendingPermissions.get(id)!.permission);
+      await vicoaClient.sendMessage(formatAmbiguousReplyNotice(pendingList), true);
+      return; // Do NOT forward this message as a prompt
+    }
+
+    if (reply.kind === 'invalid') {
+      const pending = ctx.pendingPermissions.get(reply.permissionId)!;
+      const choices = pending.options.map((opt, i) => `${i + 1}. ${opt.label}`).join(', ');
+      await vicoaClient.sendMessage(`Didn't recognise that as an answer to ${getPermissionToken(pending.permission)}. Choose one of: ${choices}`, true);
+      return;
+    }
+
+    if (reply.kind === 'matched') {
+      const pending = ctx.pendingPermissions.get(reply.permissionId)!;
+      if (reply.wantsFeedback) {
+        pending.awaitingFeedback = true;
+        await vicoaClient.sendMessage(
+          `What should the agent do instead of ${formatPermissionSubject(pending.permission)}? Your next message will be sent as the reason for rejecting it.`,
+          true,
+        );
+        return;
+      }
+      await answerPermission(ctx, reply.permissionId, reply.response, reply.feedback);
+      return; // Do NOT forward this message as a prompt
+    }
+
+    if (
+      await handleSlashCommand(
+        userMessage,
+        client,
+        ctx.sessionId,
+        vicoaClient
+      )
+    ) {
+      // After processing a slash command, set status to AWAITING_INPUT
+      await vicoaClient.updateStatus('AWAITING_INPUT');
+      return;
+    }
+
+    await forwardPrompt(ctx, userMessage);
+  }
 
-        log(client, 'info', `[Vicoa] Replying to permission ${permId} with "${matched}"`);
+  // Send a prompt to the session, or queue it if a turn is in progress
+  async function forwardPrompt(ctx: SessionContext, userMessage: string): Promise<void> {
+    // ── queue while busy ─────────────────────────────────────────
+    // A prompt arriving mid-turn waits its turn instead of being typed
+    // into the TUI while the agent works
+    if (isSessionBusy(ctx) || ctx.promptQueue.size > 0) {
+      const item = ctx.promptQueue.enqueue(userMessage);
+      log(client, 'info', `[Vicoa] Queued dashboard prompt #${item.id} (${ctx.promptQueue.size} waiting)`);
+      await dispatchQueuedPrompt(ctx);
+      return;
+    }
+
+    await submitTurn(ctx, userMessage);
+  }
+
+  // Submit a prompt that starts a turn, holding back queued ones until it ends
+  async function submitTurn(ctx: SessionContext, userMessage: string): Promise<void> {
+    const previousStatus = markSubmitted(ctx);
+    try {
+      await submitPrompt(ctx, userMessage);
+    } catch (error) {
+      ctx.status = previousStatus;
+      throw error;
+    }
+  }
+
+  // Submit the next queued dashboard prompt if the session is free
+  async function dispatchQueuedPrompt(ctx: SessionContext): Promise<void> {
+    scheduleQueueRecheck(ctx);
+    if (isSessionBusy(ctx)) return;
+    const next = ctx.promptQueue.shift();
+    if (!next) return;
+
+    log(client, 'info', `[Vicoa] Sending queued prompt #${next.id} (${ctx.promptQueue.size} still waiting)`);
+    try {
+      await submitTurn(ctx, next.text);
+    } catch (error) {
+      log(client, 'error', `[Vicoa] Failed to send queued prompt #${next.id}: ${error}`);
+      await ctx.vicoaClient.sendMessage(`Failed to send queued prompt #${next.id}: ${error}`);
+    }
+  }
+
+  // The queue is released by session.status idle events. In case one never
+  // comes (a turn that failed to start, or events that raced a submission),
+  // ask OpenCode directly every so often while prompts are waiting.
+  function scheduleQueueRecheck(ctx: SessionContext): void {
+    if (ctx.queueRecheck || ctx.promptQueue.size === 0) return;
+    ctx.queueRecheck = setTimeout(() => {
+      ctx.queueRecheck = null;
+      void (async () => {
         try {
-          await client.postSessionIdPermissionsPermissionId({
-            path: {
-              id: pending.permission.sessionID,
-              permissionID: permId,
-            },
-            body: { response: matched },
-          });
-          log(client, 'info', `[Vicoa] Permission ${permId} replied successfully`);
+          if (ctx.promptQueue.size === 0) return;
+          if (isSessionBusy(ctx) && !(ctx.sessionId && (await isBusyInOpenCode(ctx.sessionId)))) {
+            log(client, 'info', '[Vicoa] Session is idle but no idle event arrived; releasing queued prompts');
+            ctx.status = 'idle';
+          }
+          await dispatchQueuedPrompt(ctx);
         } catch (error) {
-          log(client, 'error', `[Vicoa] Failed to reply to permission ${permId}: ${error}`);
+          log(client, 'warn', `[Vicoa] Failed to check session status for queued prompts: ${error}`);
+          scheduleQueueRecheck(ctx);
         }
-        pendingPermissions.delete(permId);
-        return; // Do NOT forward this message as a prompt
-      }
+      })();
+    }, queueRecheckMs);
+    ctx.queueRecheck.unref?.();
+  }
 
-      if (
-        await handleSlashCommand(
-          userMessage,
-          client,
-          currentSessionId,
-          vicoaClient
-        )
-      ) {
-        // After processing a slash command, set status to AWAITING_INPUT
-        await vicoaClient.updateStatus('AWAITING_INPUT');
-        return;
-      }
+  // Sessions OpenCode doesn't list in its status map are idle
+  async function isBusyInOpenCode(sessionId: string): Promise<boolean> {
+    const { data, error } = await client.session.status();
+    if (!data) {
+      throw new Error(JSON.stringify(error));
+    }
+    const type = data[sessionId]?.type;
+    return type === 'busy' || type === 'retry';
+  }
 
-      // Submit as a prompt via the TUI. Mark it first so the chat.message
-      // hook doesn't echo it back to Vicoa.
-      addUIMessage(userMessage);
+  // Apply a dashboard answer to a pending permission. Instructions given
+  // with a rejection follow the reply as a prompt to the agent.
+  async function answerPermission(
+    ctx: SessionContext,
+    permId: string,
+    response: 'once' | 'always' | 'reject',
+    feedback?: string,
+  ): Promise<void> {
+    const pending = ctx.pendingPermissions.get(permId);
+    if (!pending) return;
+
+    // Resolved before replying so the permission.replied event this
+    // triggers isn't mistaken for an answer from the terminal
+    resolvePermission(ctx, permId, { response, via: 'dashboard', feedback });
+
+    log(client, 'info', `[Vicoa] Replying to permission ${permId} with "${response}"`);
+    try {
+      await replyToPermission(pending.permission, response);
+      log(client, 'info', `[Vicoa] Permission ${permId} replied successfully`);
+    } catch (error) {
+      log(client, 'error', `[Vicoa] Failed to reply to permission ${permId}: ${error}`);
+      return;
+    }
+
+    if (response === 'reject' && feedback) {
+      await forwardPrompt(ctx, formatRejectionGuidance(pending.permission, feedback));
+    }
+  }
+
+  // Send text to the session as if typed at the prompt. Resolves with the
+  // OpenCode message ID when it went through the session API.
+  async function submitPrompt(ctx: SessionContext, userMessage: string): Promise<string | null> {
+    // The TUI prompt box belongs to whichever session the terminal shows;
+    // prompts for any other session, or with no TUI at all, go straight to
+    // that session instead.
+    const shownInTui = !ctx.sessionId || !registry.activeSessionId || ctx.sessionId === registry.activeSessionId;
+    if (tuiAttached && shownInTui && !modelPickedOnDashboard) {
+      // Mark it first so the chat.message hook doesn't echo it back to Vicoa.
+      dashboardEchoes.expectText(userMessage);
       await client.tui.appendPrompt({ body: { text: userMessage } });
 
       // A trailing space is needed for @ mentions and slash commands so
@@ -430,42 +825,164 @@ export const VicoaPlugin: Plugin = async (context) => {
 
       await client.tui.submitPrompt();
       log(client, "info", `[Vicoa] Executed prompt in OpenCode: ${userMessage.substring(0, 80)}...`);
-    },
-    (level: string, msg: string) => log(client, "info", msg)
-  );
+      return null;
+    }
 
-  messagePoller.start();
+    const sessionId = ctx.sessionId ?? (await createSessionFor(ctx));
+    // Recorded first so the chat.message hook doesn't echo it back to Vicoa
+    const messageID = createMessageId();
+    dashboardEchoes.expectId(messageID);
+
+    // Slash commands have their own endpoint; it runs the whole turn, so
+    // don't wait for it
+    const slash = parseSlashCommand(userMessage);
+    if (slash) {
+      void client.session
+        .command({
+          path: { id: sessionId },
+          body: {
+            messageID,
+            command: slash.rawName,
+            arguments: slash.arguments,
+            agent: preferredAgent,
+            model: preferredModel ? `${preferredModel.providerID}/${preferredModel.modelID}` : undefined,
+          },
+        })
+        .then(({ error }) => {
+          if (error) throw new Error(JSON.stringify(error));
+        })
+        .catch((error) => {
+          dashboardEchoes.forgetId(messageID);
+          log(client, 'warn', `[Vicoa] Slash command /${slash.rawName} failed: ${error}`);
+        });
+      log(client, "info", `[Vicoa] Executed /${slash.rawName} in session ${sessionId}`);
+      return messageID;
+    }
+
+    const { error } = await client.session.promptAsync({
+      path: { id: sessionId },
+      body: {
+        messageID,
+        agent: preferredAgent,
+        model: preferredModel,
+        parts: [{ type: 'text', text: userMessage }],
+      },
+    });
+    if (error) {
+      dashboardEchoes.forgetId(messageID);
+      throw new Error(`Failed to submit prompt: ${JSON.stringify(error)}`);
+    }
+    log(client, "info", `[Vicoa] Executed prompt in session ${sessionId}: ${userMessage.substring(0, 80)}...`);
+    return messageID;
+  }
+
+  // Headless with no session yet: start one for the startup instance
+  async function createSessionFor(ctx: SessionContext): Promise<string> {
+    const { data: session, error } = await client.session.create({ body: {} });
+    if (!session) {
+      throw new Error(`Failed to create a session: ${JSON.stringify(error)}`);
+    }
+    registry.activeSessionId = session.id;
+    const bound = await registry.resolve(session.id);
+    log(client, 'info', `[Vicoa] Created session ${session.id} for ${bound?.agentInstanceId ?? ctx.agentInstanceId}`);
+    return session.id;
+  }
 
   return {
     event: async ({ event }) => {
       try {
+        // ── routing ───────────────────────────────────────────────
+        // Lifecycle events that must not implicitly register an instance
+        switch (event.type) {
+          case 'session.created': {
+            const session = event.properties.info;
+            if (session.parentID) {
+              // Subagent session — its events belong to the parent's conversation
+              registry.linkChild(session.id, session.parentID);
+              log(client, 'debug', `[Vicoa] Child session ${session.id} of ${session.parentID}`);
+              return;
+            }
+            registry.activeSessionId = session.id;
+            break;
+          }
+
+          case 'session.deleted': {
+            const removed = await registry.remove(event.properties.info.id);
+            sessionStore.delete(event.properties.info.id);
+            if (removed) {
+              log(client, 'info', `[Vicoa] Session deleted: ${event.properties.info.id}`);
+              await stopAgentInstance(removed);
+            }
+            return;
+          }
+
+          // ── shutdown ──────────────────────────────────────────────
+          // Fires before the process exits (/exit, app.exit, etc.).
+          // This is the only path where the event loop is still live,
+          // so async endSession() can actually complete.
+          case 'server.instance.disposed' as string:
+          case 'global.disposed' as string: {
+            log(client, 'info', `[Vicoa] ${event.type} — ending session`);
+            catalogSync.stop();
+            for (const ctx of await registry.all()) {
+              try {
+                await stopAgentInstance(ctx);
+              } catch (error) {
+                log(client, 'warn', `[Vicoa] endSession during dispose failed: ${error}`);
+              }
+            }
+            sessionStore.flush();
+            return;
+          }
+
+          // ── server ────────────────────────────────────────────────
+          case 'server.connected': {
+            log(client, 'info', '[Vicoa] OpenCode server connected');
+            catalogSync.check();
+            return;
+          }
+        }
+
+        const ctx = await registry.resolve(getEventSessionId(event));
+        if (!ctx) {
+          return;
+        }
+        const { vicoaClient } = ctx;
+
         switch (event.type) {
           // ── message streaming ─────────────────────────────────────
           case 'message.part.updated': {
             const { part, delta } = event.properties;
 
-            // Tool parts are sent as their own messages once they finish,
-            // rather than being folded into the surrounding assistant text.
+            // Subagent work is shown on the task card that spawned it
+            const parentId = registry.parentOf(part.sessionID);
+            if (parentId) {
+              ctx.toolCards.linkChild(part.sessionID, parentId);
+              ctx.toolCards.handleChildPart(part.sessionID, part);
+              return;
+            }
+
+            // Tool parts get their own live card on the dashboard rather
+            // than being folded into the surrounding assistant text.
             if (part.type === 'tool') {
-              const status = part.state.status;
-              if (status === 'completed' || status === 'error') {
-                // read/grep/glob/… — only show the usage line, no result
-                const formatted = formatToolPartSafe(part);
-                if (formatted) {
-                  await vicoaClient.sendMessage(formatted);
-                }
-              }
-              // pending / running — nothing to send yet
+              ctx.toolCards.handle(part);
               return;
             }
 
-            handlePartUpdate(part, delta);
+            handlePartUpdate(ctx, part, verbosity.profile, delta);
+
+            // Stream the assembled text so far; MessageStreamer throttles
+            if ('messageID' in part && ctx.inProgressAssistantMessageIds.has(part.messageID)) {
+              ctx.streamer.update(part.messageID, buildMessageContent(ctx, part.messageID));
+            }
             return;
           }
 
           // ── completed assistant message forwarding ────────────────
           case 'message.updated': {
             const message = event.properties.info;
+            // Child messages only surface through the parent's task card
+            if (registry.isChild(message.sessionID)) return;
 
             // User messages carry the agent the TUI used — track it so that
             // cycleTuiToAgent knows where the indicator currently is.
@@ -477,6 +994,7 @@ export const VicoaPlugin: Plugin = async (context) => {
               const previousAgent = tuiCurrentAgent;
               tuiCurrentAgent = reportedAgent;
               preferredAgent = reportedAgent;
+              registry.activeSessionId = registry.rootOf(message.sessionID);
 
               if (previousAgent !== reportedAgent) {
                 void sendAgentSwitchToUi(
@@ -487,18 +1005,39 @@ export const VicoaPlugin: Plugin = async (context) => {
               }
             }
 
+            // Likewise the model: a prompt with a different model means it was
+            // switched in the terminal, which takes over from a dashboard pick
+            if (message.role === 'user' && message.model) {
+              const reportedModel = message.model;
+              if (!preferredModel || formatModelRef(reportedModel) !== formatModelRef(preferredModel)) {
+                preferredModel = reportedModel;
+                modelPickedOnDashboard = false;
+                void sendModelToUi(vicoaClient, logClient, reportedModel, 'changed');
+              }
+            }
+
             // message.updated fires on every update (user messages, intermediate
             // assistant updates without completed, etc.).  Only act — and only
             // clean up accumulated part state — once the assistant message has
             // actually finished.
-            if (message.role !== 'assistant' || !message.time?.completed) return;
+            if (message.role !== 'assistant') return;
+            if (!message.time?.completed) {
+              if (!ctx.sentMessageIds.has(message.id)) {
+                ctx.inProgressAssistantMessageIds.add(message.id);
+              }
+              return;
+            }
 
-            const trimmedText = buildMessageContent(message.id);
-            messagePartsById.delete(message.id);
+            const trimmedText = buildMessageContent(ctx, message.id);
+            ctx.messagePartsById.delete(message.id);
+            ctx.inProgressAssistantMessageIds.delete(message.id);
 
-            if (trimmedText.length > 0 && !sentAssistantMessageIds.has(message.id)) {
-              await vicoaClient.sendMessage(trimmedText);
-              trackSentMessage(sentAssistantMessageIds, sentAssistantMessageQueue, message.id);
+            if (trimmedText.length > 0 && !ctx.sentMessageIds.has(message.id)) {
+              // Updates the live-streamed message in place, or sends it whole
+              ctx.streamer.finalize(message.id, trimmedText);
+              markMessageSent(ctx, message.id);
+            } else {
+              ctx.streamer.discard(message.id);
             }
             return;
           }
@@ -506,8 +1045,7 @@ export const VicoaPlugin: Plugin = async (context) => {
           // ── session lifecycle ─────────────────────────────────────
           case 'session.created': {
             const session = event.properties.info;
-            lastSessionTitle = session.title;
-            currentSessionId = session.id;
+            ctx.title = session.title;
             log(client, 'info', `[Vicoa] Session created: ${session.id}`);
 
             await vicoaClient.updateStatus('ACTIVE');
@@ -515,23 +1053,25 @@ export const VicoaPlugin: Plugin = async (context) => {
           }
 
           case 'session.updated': {
-            const nextTitle = event.properties.info.title;
-            if (nextTitle && nextTitle !== lastSessionTitle) {
-              lastSessionTitle = nextTitle;
+            const session = event.properties.info;
+            const nextTitle = session.title;
+            // A subagent session's title must not rename the parent conversation
+            if (session.parentID || registry.isChild(session.id)) return;
+            if (nextTitle && nextTitle !== ctx.title) {
+              ctx.title = nextTitle;
               await vicoaClient.updateAgentInstanceName(nextTitle);
               log(client, 'info', `[Vicoa] Updated session title: ${nextTitle}`);
             }
             return;
           }
 
-          case 'session.deleted': {
-            currentSessionId = undefined;
-            await vicoaClient.endSession();
-            return;
-          }
-
           case 'session.idle': {
+            if (registry.isChild(event.properties.sessionID)) return;
             log(client, 'info', '[Vicoa] Session idle');
+            // Agents, models or MCP servers may have changed during the turn
+            catalogSync.check();
+            // The agent just finished a turn — a reply from the phone is likely
+            ctx.poller.notifyActivity();
             await vicoaClient.updateStatus('AWAITING_INPUT');
 
             if (vicoaClient.lastMessageId) {
@@ -539,17 +1079,20 @@ export const VicoaPlugin: Plugin = async (context) => {
             }
             return;
           }
-          
+
           case 'session.status': {
+            // Subagent status changes don't reflect the conversation's state
+            if (registry.isChild(event.properties.sessionID)) return;
             const statusType = event.properties.status.type;
 
-            // Track current status for interrupt handling
-            currentSessionStatus = statusType;
+            // Track current status for interrupt handling and the prompt queue
+            ctx.status = statusType;
 
             if (statusType === 'busy' || statusType === 'retry') {
               await vicoaClient.updateStatus('ACTIVE');
             } else if (statusType === 'idle') {
               await vicoaClient.updateStatus('AWAITING_INPUT');
+              await dispatchQueuedPrompt(ctx);
             }
             return;
           }
@@ -562,6 +1105,15 @@ export const VicoaPlugin: Plugin = async (context) => {
 
             log(client, 'error', `[Vicoa] Session error: ${errorMsg}`);
 
+            // A failing subagent shows up on its task card, not the transcript
+            const erroredSessionId = event.properties.sessionID;
+            const erroredParentId = erroredSessionId ? registry.parentOf(erroredSessionId) : undefined;
+            if (erroredSessionId && erroredParentId) {
+              ctx.toolCards.linkChild(erroredSessionId, erroredParentId);
+              ctx.toolCards.handleChildError(erroredSessionId, errorMsg);
+              return;
+            }
+
             // Only send error message to UI if it's not the generic "Unknown error"
             if (errorMsg !== 'Unknown error') {
               // Check if it's a rate limiting error
@@ -588,7 +1140,29 @@ export const VicoaPlugin: Plugin = async (context) => {
           case 'permission.asked' as string: {
             const permission = event.properties as Permission;
 
+            // Requests a policy rule covers are answered without asking
+            auditLog.record(buildAuditEntry(permission, 'asked', { agentInstanceId: ctx.agentInstanceId }));
+
+            const decision = permissionPolicy.evaluate(permission);
+            if (decision && decision.action !== 'ask') {
+              const response = decision.action === 'allow' ? 'once' : 'reject';
+              try {
+                await replyToPermission(permission, response);
+                auditLog.record(buildAuditEntry(permission, 'auto_decided', {
+                  agentInstanceId: ctx.agentInstanceId,
+                  response,
+                  rule: decision.rule,
+                }));
+                log(client, 'info', `[Vicoa] Permission ${permission.id} ${decision.action}ed by rule "${decision.rule}"`);
+                await vicoaClient.sendMessage(formatPolicyNotice(permission, decision.action, decision.rule));
+                return;
+              } catch (error) {
+                log(client, 'warn', `[Vicoa] Auto-reply to permission ${permission.id} failed, asking instead: ${error}`);
+              }
+            }
+
             const options = buildPermissionOptions(permission);
+            ctx.poller.notifyActivity();
 
             const messageId = await vicoaClient.sendMessage(
               formatPermissionRequest(permission, options),
@@ -596,41 +1170,63 @@ export const VicoaPlugin: Plugin = async (context) => {
             );
 
             // Record so the poller callback can reply via OpenCode API
-            pendingPermissions.set(permission.id, {
+            ctx.pendingPermissions.set(permission.id, {
               permission,
               options,
               vicoaMessageId: messageId,
             });
             log(client, 'info', `[Vicoa] Tracked pending permission: ${permission.id}`);
-            return;
-          }
 
-          case 'permission.replied' as string: {
-            // Clean up — reply already sent by the poller handler
-            const { permissionID } = event.properties as { sessionID: string; permissionID: string; response: string };
-            pendingPermissions.delete(permissionID);
-            log(client, 'debug', `[Vicoa] Cleaned up replied permission: ${permissionID}`);
-            return;
-          }
-
-          // ── server ────────────────────────────────────────────────
-          case 'server.connected': {
-            log(client, 'info', '[Vicoa] OpenCode server connected');
+            permissionTimeouts.schedule(permission.id, getPermissionType(permission), {
+              onReminder: (rule, remainingMs) => {
+                if (!ctx.pendingPermissions.has(permission.id)) return;
+                void vicoaClient.sendMessage(formatTimeoutReminder(permission, rule.action, remainingMs));
+              },
+              onTimeout: (rule) => {
+                const pending = ctx.pendingPermissions.get(permission.id);
+                if (!pending) return;
+                const response = rule.action === 'allow' ? 'once' : 'reject';
+                // Only shown as decided once OpenCode took the reply; until
+                // then its permission.replied event is ours, not the terminal's
+                pending.autoReplying = true;
+                void (async () => {
+                  try {
+                    await replyToPermission(permission, response);
+                  } catch (error) {
+                    pending.autoReplying = false;
+                    log(client, 'error', `[Vicoa] Failed to apply timeout for permission ${permission.id}: ${error}`);
+                    // Answered some other way in the meantime
+                    if (!ctx.pendingPermissions.has(permission.id)) return;
+                    await vicoaClient.sendMessage(`Could not ${rule.action} ${formatPermissionSubject(permission)} automatically after the timeout; it is still waiting for an answer.`);
+                    return;
+                  }
+                  if (!ctx.pendingPermissions.has(permission.id)) return;
+                  resolvePermission(ctx, permission.id, { response, via: 'timeout' });
+                  log(client, 'info', `[Vicoa] Permission ${permission.id} timed out after ${rule.after}s, ${rule.action === 'allow' ? 'allowed' : 'rejected'}`);
+                  await vicoaClient.sendMessage(formatTimeoutNotice(permission, rule.action, rule.after * 1000));
+                })().catch((error) => {
+                  log(client, 'warn', `[Vicoa] Failed to post timeout notice for permission ${permission.id}: ${error}`);
+                });
+              },
+            });
             return;
           }
 
-          // ── shutdown ──────────────────────────────────────────────
-          // Fires before the process exits (/exit, app.exit, etc.).
-          // This is the only path where the event loop is still live,
-          // so async endSession() can actually complete.
-          case 'server.instance.disposed' as string:
-          case 'global.disposed' as string: {
-            log(client, 'info', `[Vicoa] ${event.type} — ending session`);
-            messagePoller.stop();
-            try {
-              await vicoaClient.endSession();
-            } catch (error) {
-              log(client, 'warn', `[Vicoa] endSession during dispose failed: ${error}`);
+          case 'permission.replied' as string: {
+            // Still pending means nobody answered through us: it was
+            // answered in the terminal, so close it out on the dashboard
+            const { permissionID, response } = event.properties as { sessionID: string; permissionID: string; response: string };
+            const pending = ctx.pendingPermissions.get(permissionID);
+            if (pending?.autoReplying) {
+              log(client, 'debug', `[Vicoa] Permission ${permissionID} replied by its timeout`);
+            } else if (pending) {
+              resolvePermission(ctx, permissionID, {
+                response: response === 'always' || response === 'reject' ? response : 'once',
+                via: 'terminal',
+              });
+              log(client, 'info', `[Vicoa] Permission ${permissionID} answered in the terminal: ${response}`);
+            } else {
+              log(client, 'debug', `[Vicoa] Cleaned up replied permission: ${permissionID}`);
             }
             return;
           }
@@ -686,13 +1282,27 @@ export const VicoaPlugin: Plugin = async (context) => {
 
           if (fullText.length === 0) return;
 
-          if (isFromUI(fullText)) {
+          // Subagent prompts are written by the parent agent, not the user
+          if (registry.isChild(input.sessionID)) return;
+
+          const fromUI = dashboardEchoes.isEcho(message.id, fullText);
+
+          const ctx = await registry.resolve(input.sessionID);
+          if (!ctx) return;
+
+          // Binding may have just backfilled this very message
+          if (ctx.sentMessageIds.has(message.id)) return;
+
+          // Either way the dashboard has it now; history backfill must skip it
+          markMessageSent(ctx, message.id);
+
+          if (fromUI) {
             log(client, 'debug', `[Vicoa] Skipping message from UI: ${fullText.substring(0, 80)}...`);
             return;
           }
 
           log(client, 'info', `[Vicoa] User message from terminal: ${fullText.substring(0, 80)}${fullText.length > 80 ? '...' : ''}`);
-          await vicoaClient.sendUserMessage(fullText);
+          await ctx.vicoaClient.sendUserMessage(fullText);
         }
       } catch (error) {
         log(client, 'error', `[Vicoa] Error in chat.message hook: ${error}`);
@@ -0,0 +1,209 @@
+/**
+ * Append-only audit log of permission decisions
+ *
+ * Every permission event — asked, decided by a policy rule, answered on the
+ * dashboard or in the terminal, or timed out — is appended as one JSON line
+ * so "who approved that `rm -rf`?" can be answered after the fact. Entries
+ * carry the permission type, patterns, the command/path/diff it was about,
+ * where the decision came from and when.
+ *
+ * Written to ~/.vicoa/opencode-audit.jsonl unless the config sets
+ * `audit.path`; once the file passes `audit.maxBytes` (default 5 MB) it is
+ * rotated to `.1`, `.2`, … keeping `audit.maxFiles` (default 3) old files.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Permission } from '@opencode-ai/sdk';
+import { formatUnifiedDiff } from './diff.js';
+import { getEditStrings, getPermissionPatterns, getPermissionType } from './permission.js';
+
+export type AuditEvent = 'asked' | 'auto_decided' | 'dashboard' | 'terminal' | 'timeout';
+
+export interface AuditEntry {
+  timestamp: string;
+  event: AuditEvent;
+  permissionId: string;
+  sessionId: string;
+  agentInstanceId?: string;
+  type: string;
+  patterns: string[];
+  title?: string;
+  command?: string;
+  filePath?: string;
+  url?: string;
+  diff?: string;
+  response?: 'once' | 'always' | 'reject';
+  rule?: string;
+  feedback?: string;
+  requestedAt?: string;
+}
+
+export interface AuditLogConfig {
+  enabled?: boolean;
+  path?: string;
+  maxBytes?: number;
+  maxFiles?: number;
+}
+
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 3;
+const MAX_DIFF_LENGTH = 4000;
+
+/**
+ * Get default path of the audit log
+ */
+export function getAuditLogPath(): string {
+  return path.join(os.homedir(), '.vicoa', 'opencode-audit.jsonl');
+}
+
+function expandHome(filePath: string): string {
+  return filePath.startsWith('~/') ? path.join(os.homedir(), filePath.slice(2)) : filePath;
+}
+
+function pickString(sources: Array<Record<string, unknown>>, keys: string[]): string | undefined {
+  for (const source of sources) {
+    for (const key of keys) {
+      if (typeof source[key] === 'string' && source[key]) {
+        return source[key] as string;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Build an audit entry for a permission event
+ */
+export function buildAuditEntry(
+  permission: Permission,
+  event: AuditEvent,
+  details: Pick<AuditEntry, 'agentInstanceId' | 'response' | 'rule' | 'feedback'> = {}
+): AuditEntry {
+  const meta = (permission.metadata ?? {}) as Record<string, unknown>;
+  const input = (meta.input && typeof meta.input === 'object' ? meta.input : {}) as Record<string, unknown>;
+  const sources = [meta, input];
+
+  let diff = pickString(sources, ['diff']);
+  const edit = getEditStrings(permission);
+  if (!diff && edit) {
+    diff = formatUnifiedDiff(edit.oldString, edit.newString).join('\n');
+  }
+
+  return {
+    timestamp: new Date().toISOString(),
+    event,
+    permissionId: permission.id,
+    sessionId: permission.sessionID,
+    type: getPermissionType(permission),
+    patterns: getPermissionPatterns(permission),
+    title: permission.title || undefined,
+    command: pickString(sources, ['command']),
+    filePath: pickString(sources, ['filePath', 'filepath', 'file_path']),
+    url: pickString(sources, ['url']),
+    diff: diff && diff.length > MAX_DIFF_LENGTH ? `${diff.slice(0, MAX_DIFF_LENGTH)}...` : diff,
+    requestedAt: permission.time?.created ? new Date(permission.time.created).toISOString() : undefined,
+    ...details,
+  };
+}
+
+/**
+ * Render recent entries for the dashboard
+ */
+export function formatAuditEntries(entries: AuditEntry[]): string {
+  if (entries.length === 0) {
+    return 'No permission events recorded yet.';
+  }
+
+  const lines = entries.map((entry) => {
+    const subject = entry.command ?? entry.filePath ?? entry.url ?? entry.patterns[0];
+    const outcome = entry.response ? ` → ${entry.response}` : '';
+    const rule = entry.rule ? ` (rule "${entry.rule}")` : '';
+    return `• ${entry.timestamp} **${entry.event}** ${entry.type}${subject ? ` \`${subject}\`` : ''}${outcome}${rule}`;
+  });
+  return `**Permission audit log** (last ${entries.length})\n${lines.join('\n')}`;
+}
+
+export class AuditLog {
+  private filePath: string;
+  private maxBytes: number;
+  private maxFiles: number;
+  private enabled: boolean;
+  private log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+
+  constructor(
+    config: AuditLogConfig,
+    log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void
+  ) {
+    this.log = log;
+    this.enabled = config.enabled !== false;
+    this.filePath = config.path ? expandHome(config.path) : getAuditLogPath();
+    this.maxBytes = config.maxBytes && config.maxBytes > 0 ? config.maxBytes : DEFAULT_MAX_BYTES;
+    this.maxFiles = config.maxFiles && config.maxFiles > 0 ? Math.floor(config.maxFiles) : DEFAULT_MAX_FILES;
+  }
+
+  /**
+   * Append an entry; failures are logged, never thrown
+   */
+  record(entry: AuditEntry): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    const line = `${JSON.stringify(entry)}\n`;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      this.rotateIfNeeded(Buffer.byteLength(line));
+      fs.appendFileSync(this.filePath, line, { encoding: 'utf-8', mode: 0o600 });
+    } catch (error) {
+      this.log('warn', `[Vicoa] Failed to write audit log: ${error}`);
+    }
+  }
+
+  /**
+   * The most recent entries, oldest first
+   */
+  recent(limit: number): AuditEntry[] {
+    const entries: AuditEntry[] = [];
+    // Newest file first, walking back through rotations until we have enough
+    for (let index = 0; index <= this.maxFiles && entries.length < limit; index++) {
+      const filePath = index === 0 ? this.filePath : `${this.filePath}.${index}`;
+      let lines: string[];
+      try {
+        lines = fs.readFileSync(filePath, 'utf-8').split('\n').filter(Boolean);
+      } catch {
+        break;
+      }
+      for (let i = lines.length - 1; i >= 0 && entries.length < limit; i--) {
+        try {
+          entries.push(JSON.parse(lines[i]) as AuditEntry);
+        } catch {
+          // skip a torn line
+        }
+      }
+    }
+    return entries.reverse();
+  }
+
+  private rotateIfNeeded(incomingBytes: number): void {
+    let size = 0;
+    try {
+      size = fs.statSync(this.filePath).size;
+    } catch {
+      return; // nothing to rotate yet
+    }
+    if (size + incomingBytes <= this.maxBytes) {
+      return;
+    }
+
+    fs.rmSync(`${this.filePath}.${this.maxFiles}`, { force: true });
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      const from = `${this.filePath}.${index}`;
+      if (fs.existsSync(from)) {
+        fs.renameSync(from, `${this.filePath}.${index + 1}`);
+      }
+    }
+    fs.renameSync(this.filePath, `${this.filePath}.1`);
+  }
+}
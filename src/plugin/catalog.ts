@@ -0,0 +1,175 @@
+/**
+ * What this OpenCode install offers, kept in sync with the dashboard
+ *
+ * Alongside slash commands, the dashboard is told which primary agents can
+ * be selected (the same list the TUI cycles through), which models each
+ * configured provider offers, and how each MCP server's connection is
+ * doing, so its pickers only show things that exist here.
+ *
+ * The catalog is pushed shortly after startup, and checked again when a
+ * session goes idle and every VICOA_CATALOG_SYNC_INTERVAL_MS (default
+ * 60000). It is only sent when something changed since the last successful
+ * sync. All of this runs in the background; a failed check is retried on
+ * the next one.
+ */
+
+import { listPrimaryAgents } from './control.js';
+import { formatModelRef, listProviderModels } from './models.js';
+import { parsePositiveInt } from './utils.js';
+import type { VicoaClient } from './vicoa-client.js';
+
+export type CatalogAgent = {
+  name: string;
+  description?: string;
+  model?: string;                        // "provider/model" the agent is pinned to
+};
+
+export type CatalogProvider = {
+  id: string;
+  name: string;
+  default_model?: string;
+  models: Array<{ id: string; name: string }>;
+};
+
+export type CatalogMcpServer = {
+  name: string;
+  status: string;                        // connected, disabled, failed, needs_auth, …
+  error?: string;
+};
+
+export type Catalog = {
+  agents: CatalogAgent[];
+  providers: CatalogProvider[];
+  mcp_servers: CatalogMcpServer[];
+};
+
+async function listMcpServers(client: any): Promise<CatalogMcpServer[]> {
+  const { data, error } = await client.mcp.status();
+  if (!data) {
+    throw new Error(`Failed to get MCP status: ${JSON.stringify(error)}`);
+  }
+
+  return Object.entries(data as Record<string, { status: string; error?: string }>)
+    .map(([name, server]) => ({
+      name,
+      status: server.status,
+      ...(server.error ? { error: server.error } : {}),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Gather the current catalog from OpenCode
+ */
+export async function collectCatalog(client: any): Promise<Catalog> {
+  const [agents, { providers, defaults }, mcpServers] = await Promise.all([
+    listPrimaryAgents(client),
+    listProviderModels(client),
+    listMcpServers(client),
+  ]);
+
+  return {
+    agents: agents.map((agent) => ({
+      name: agent.name,
+      ...(agent.description ? { description: agent.description } : {}),
+      ...(agent.model ? { model: formatModelRef(agent.model) } : {}),
+    })),
+    providers: providers.map((provider) => ({
+      id: provider.id,
+      name: provider.name,
+      ...(defaults[provider.id] ? { default_model: defaults[provider.id] } : {}),
+      models: provider.models,
+    })),
+    mcp_servers: mcpServers,
+  };
+}
+
+export class CatalogSync {
+  private client: any;
+  private vicoaClient: VicoaClient;
+  private log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+  private agentType: string;
+  private intervalMs: number;
+  private lastSynced: string | null = null;
+  private running = false;
+  private rerun = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    client: any,
+    vicoaClient: VicoaClient,
+    agentType: string,
+    log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void,
+    intervalMs: number = parsePositiveInt(process.env.VICOA_CATALOG_SYNC_INTERVAL_MS, 60000)
+  ) {
+    this.client = client;
+    this.vicoaClient = vicoaClient;
+    this.agentType = agentType;
+    this.log = log;
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Push the catalog now and keep checking it in the background
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.check();
+    this.timer = setInterval(() => this.check(), this.intervalMs);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Look for changes on a separate tick, so callers never wait for it.
+   * A check requested while one is running runs once it finishes.
+   */
+  check(): void {
+    if (this.running) {
+      this.rerun = true;
+      return;
+    }
+    this.running = true;
+    setTimeout(() => {
+      void this.sync().finally(() => {
+        this.running = false;
+        if (this.rerun) {
+          this.rerun = false;
+          this.check();
+        }
+      });
+    }, 0);
+  }
+
+  private async sync(): Promise<void> {
+    let catalog: Catalog;
+    try {
+      catalog = await collectCatalog(this.client);
+    } catch (error) {
+      this.log('warn', `[Vicoa] Failed to read OpenCode catalog: ${error}`);
+      return;
+    }
+
+    const snapshot = JSON.stringify(catalog);
+    if (snapshot === this.lastSynced) {
+      return;
+    }
+
+    if (await this.vicoaClient.syncCatalog(this.agentType, catalog)) {
+      this.lastSynced = snapshot;
+      const modelCount = catalog.providers.reduce((count, provider) => count + provider.models.length, 0);
+      this.log(
+        'info',
+        `[Vicoa] Synced catalog: ${catalog.agents.length} agents, ${modelCount} models, ${catalog.mcp_servers.length} MCP servers`
+      );
+    }
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Plugin configuration files
+ *
+ * Settings are read from two JSON files, both optional:
+ *   - <project>/.opencode/vicoa.json   (per project)
+ *   - ~/.vicoa/opencode.json           (global)
+ *
+ * Project settings take precedence. List-valued settings such as permission
+ * rules are concatenated, project entries first, so a project can override
+ * a global rule by matching the same request earlier.
+ *
+ * The exception is settings that protect what leaves the machine. A cloned
+ * repository must not be able to turn them off: end-to-end encryption is
+ * configured in the global file only, and secret redaction can only be
+ * switched off, stripped of its built-in detectors or given an allowlist
+ * there; a project can only add redaction rules.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { AuditLogConfig } from './audit-log.js';
+import type { EncryptionConfig } from './encryption.js';
+import type { PermissionRule } from './permission-policy.js';
+import type { PermissionTimeoutRule } from './permission-timeouts.js';
+import type { RedactionConfig, RedactionRule } from './redaction.js';
+import type { VerbosityConfig, VerbosityProfileConfig } from './verbosity.js';
+
+export interface VicoaPluginConfig {
+  permissions: {
+    rules: PermissionRule[];
+    timeouts: PermissionTimeoutRule[];
+  };
+  audit: AuditLogConfig;
+  redaction: RedactionConfig;
+  encryption: EncryptionConfig;
+  verbosity: VerbosityConfig;
+}
+
+type ConfigSource = 'project' | 'global';
+
+/**
+ * Get paths to the project and global config files
+ */
+export function getConfigPaths(projectDir: string): Record<ConfigSource, string> {
+  return {
+    project: path.join(projectDir, '.opencode', 'vicoa.json'),
+    global: path.join(os.homedir(), '.vicoa', 'opencode.json'),
+  };
+}
+
+function readConfigFile(
+  filePath: string,
+  log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void
+): Record<string, any> {
+  if (!fs.existsSync(filePath)) {
+    return {};
+  }
+
+  try {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (data && typeof data === 'object' && !Array.isArray(data)) {
+      log('info', `[Vicoa] Loaded config from ${filePath}`);
+      return data;
+    }
+    log('warn', `[Vicoa] Ignoring ${filePath}: expected a JSON object`);
+  } catch (error) {
+    log('warn', `[Vicoa] Error reading config file ${filePath}: ${error}`);
+  }
+  return {};
+}
+
+function readObjects<T>(value: unknown): T[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter((item): item is T => Boolean(item) && typeof item === 'object');
+}
+
+function readSection<T extends object>(value: unknown): Partial<T> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Partial<T>) : {};
+}
+
+function readRules(raw: Record<string, any>, source: ConfigSource): PermissionRule[] {
+  return readObjects<PermissionRule>(raw.permissions?.rules)
+    .map((rule, index) => ({ ...rule, name: rule.name || `${source} rule #${index + 1}` }));
+}
+
+// Redaction settings that can only weaken it; honoured from the global file only
+const GLOBAL_ONLY_REDACTION_KEYS = ['enabled', 'builtins', 'allowlist'] as const;
+
+function readRedaction(raw: Record<string, any>, source: ConfigSource): RedactionConfig {
+  const section = readSection<RedactionConfig>(raw.redaction);
+  return {
+    ...section,
+    rules: readObjects<RedactionRule>(section.rules)
+      .map((rule, index) => ({ ...rule, name: rule.name || `${source} redaction #${index + 1}` })),
+    allowlist: Array.isArray(section.allowlist)
+      ? section.allowlist.filter((entry): entry is string => typeof entry === 'string')
+      : [],
+  };
+}
+
+/**
+ * Load and merge the project and global config files
+ */
+export function loadPluginConfig(
+  projectDir: string,
+  log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void
+): VicoaPluginConfig {
+  const paths = getConfigPaths(projectDir);
+  const project = readConfigFile(paths.project, log);
+  const global = readConfigFile(paths.global, log);
+  const projectVerbosity = readSection<VerbosityConfig>(project.verbosity);
+  const globalVerbosity = readSection<VerbosityConfig>(global.verbosity);
+  const projectRedaction = readRedaction(project, 'project');
+  const globalRedaction = readRedaction(global, 'global');
+
+  if (Object.keys(readSection(project.encryption)).length > 0) {
+    log('warn', `[Vicoa] Ignoring encryption settings in ${paths.project}: only allowed in ${paths.global}`);
+  }
+  const ignoredRedactionKeys = GLOBAL_ONLY_REDACTION_KEYS.filter((key) => key in readSection(project.redaction));
+  if (ignoredRedactionKeys.length > 0) {
+    log('warn', `[Vicoa] Ignoring redaction ${ignoredRedactionKeys.join(', ')} in ${paths.project}: only allowed in ${paths.global}`);
+  }
+
+  return {
+    permissions: {
+      rules: [...readRules(project, 'project'), ...readRules(global, 'global')],
+      timeouts: [
+        ...readObjects<PermissionTimeoutRule>(project.permissions?.timeouts),
+        ...readObjects<PermissionTimeoutRule>(global.permissions?.timeouts),
+      ],
+    },
+    audit: { ...readSection<AuditLogConfig>(global.audit), ...readSection<AuditLogConfig>(project.audit) },
+    encryption: readSection<EncryptionConfig>(global.encryption),
+    verbosity: {
+      profile: projectVerbosity.profile ?? globalVerbosity.profile,
+      profiles: {
+        ...readSection<Record<string, VerbosityProfileConfig>>(globalVerbosity.profiles),
+        ...readSection<Record<string, VerbosityProfileConfig>>(projectVerbosity.profiles),
+      } as Record<string, VerbosityProfileConfig>,
+    },
+    redaction: {
+      ...globalRedaction,
+      rules: [...(projectRedaction.rules ?? []), ...(globalRedaction.rules ?? [])],
+    },
+  };
+}
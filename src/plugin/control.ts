@@ -1,5 +1,17 @@
 import type { VicoaClient } from './vicoa-client.js';
+import { formatAuditEntries, type AuditLog } from './audit-log.js';
 import { executeTuiCommand } from './commands.js';
+import {
+  findModel,
+  formatModelList,
+  formatModelRef,
+  listProviderModels,
+  parseModelRef,
+  sendModelToUi,
+} from './models.js';
+import { parseQueueRef, type PromptQueue } from './prompt-queue.js';
+import type { PromptModel } from './prompt-submission.js';
+import type { VerbositySettings } from './verbosity.js';
 import { log } from './utils.js'
 
 type LogFn = (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
@@ -12,8 +24,34 @@ type ControlCommandContext = {
   getTuiCurrentAgent: () => string | undefined;
   setTuiCurrentAgent: (agent: string | undefined) => void;
   setPreferredAgent: (agent: string | undefined) => void;
+  getPreferredModel?: () => PromptModel | undefined;
+  setPreferredModel?: (model: PromptModel) => void;
+  auditLog?: AuditLog;
+  verbosity?: VerbositySettings;
+  promptQueue?: PromptQueue;
 };
 
+const DEFAULT_AUDIT_ENTRIES = 20;
+const MAX_AUDIT_ENTRIES = 100;
+
+export type PrimaryAgent = {
+  name: string;
+  description?: string;
+  mode?: string;
+  hidden?: boolean;
+  model?: { providerID: string; modelID: string };
+};
+
+// The same filtered list the TUI cycles through: primary agents only, not hidden.
+export async function listPrimaryAgents(client: any): Promise<PrimaryAgent[]> {
+  // hey-api returns { data, error, … } when throwOnError is false (the default).
+  const { data: allAgents, error } = await client.app.agents();
+  if (!allAgents) {
+    throw new Error(`Failed to list agents: ${JSON.stringify(error)}`);
+  }
+  return (allAgents as PrimaryAgent[]).filter((a) => a.mode !== 'subagent' && !a.hidden);
+}
+
 // Cycle the TUI's agent indicator to `targetAgent` by firing agent.cycle
 // the right number of times.  The TUI wraps around at the end of the list,
 // so we only need (targetIndex - currentIndex + len) % len steps.
@@ -25,12 +63,7 @@ export async function cycleTuiToAgent(
   currentAgent: string | undefined
 ): Promise<boolean> {
   try {
-    // Fetch the same filtered list the TUI uses: primary agents only, not hidden.
-    // hey-api returns { data, error, … } when throwOnError is false (the default).
-    const { data: allAgents } = await client.app.agents();
-    const primaryAgents = (allAgents as Array<{ name: string; mode?: string; hidden?: boolean }>).filter(
-      (a) => a.mode !== 'subagent' && !a.hidden,
-    );
+    const primaryAgents = await listPrimaryAgents(client);
 
     const targetIdx = primaryAgents.findIndex((a) => a.name === targetAgent);
     if (targetIdx === -1) return false; // shouldn't happen — already validated
@@ -80,11 +113,21 @@ function extractControlPayload(content: string): { setting?: string; value?: unk
   return null;
 }
 
+// queue_move accepts { id, position } or a string like "#3 1"
+function parseQueueMove(value: unknown): { ref: number | null; position: number | null } {
+  if (value && typeof value === 'object') {
+    const { id, position } = value as { id?: unknown; position?: unknown };
+    return { ref: parseQueueRef(id), position: parseQueueRef(position) };
+  }
+  const [id, position] = String(value ?? '').trim().split(/\s+/);
+  return { ref: parseQueueRef(id), position: parseQueueRef(position) };
+}
+
 /**
  * Handle control commands from Vicoa (matching Claude wrapper pattern)
  */
 export async function handleControlCommand(content: string, context: ControlCommandContext): Promise<boolean> {
-  const { client, vicoaClient, currentSessionId, currentSessionStatus, getTuiCurrentAgent, setPreferredAgent, setTuiCurrentAgent } = context;
+  const { client, vicoaClient, currentSessionId, currentSessionStatus, getTuiCurrentAgent, setPreferredAgent, setTuiCurrentAgent, auditLog, verbosity, promptQueue, getPreferredModel, setPreferredModel } = context;
 
   // Try to parse as JSON control command
   try {
@@ -132,10 +175,7 @@ export async function handleControlCommand(content: string, context: ControlComm
         // Validate against the agents OpenCode actually knows about.
         // Filter to primary (non-subagent, non-hidden) — same set the TUI cycles through.
         try {
-          const { data: agents } = await client.app.agents();
-          const primaryAgents = (agents as Array<{ name: string; mode?: string; hidden?: boolean }>).filter(
-            (a) => a.mode !== 'subagent' && !a.hidden,
-          );
+          const primaryAgents = await listPrimaryAgents(client);
           const validNames = primaryAgents.map((a) => a.name);
           const match = validNames.find((n: string) => n.toLowerCase() === nextAgent);
           if (!match) {
@@ -168,6 +208,101 @@ export async function handleControlCommand(content: string, context: ControlComm
         return true;
       }
 
+      if (setting === 'model') {
+        if (!setPreferredModel) {
+          await vicoaClient.sendMessage('Model switching is not available.');
+          return true;
+        }
+
+        let providers;
+        try {
+          ({ providers } = await listProviderModels(client));
+        } catch (error) {
+          log(client, 'warn', `[Vicoa] Could not list models: ${error}`);
+          await vicoaClient.sendMessage(`Could not list models: ${error}`);
+          return true;
+        }
+
+        const hasValue = typeof value === 'string' ? value.trim().length > 0 : Boolean(value);
+        if (!hasValue) {
+          await vicoaClient.sendMessage(formatModelList(providers, getPreferredModel?.()));
+          return true;
+        }
+
+        const requested = parseModelRef(value);
+        const match = requested ? findModel(providers, requested) : null;
+        if (!match) {
+          const label = requested ? formatModelRef(requested) : String(value);
+          log(client, 'warn', `[Vicoa] Unknown model "${label}"`);
+          await vicoaClient.sendMessage(`Unknown model "${label}"; use provider/model.\n\n${formatModelList(providers, getPreferredModel?.())}`);
+          return true;
+        }
+
+        setPreferredModel(match);
+        await sendModelToUi(vicoaClient, (level, message) => log(client, level, message), match, 'changed');
+        return true;
+      }
+
+      if (setting === 'audit_log') {
+        if (!auditLog) {
+          await vicoaClient.sendMessage('Audit log is not available.');
+          return true;
+        }
+        const requested = Number.parseInt(String(value ?? ''), 10);
+        const limit = Number.isNaN(requested) || requested <= 0
+          ? DEFAULT_AUDIT_ENTRIES
+          : Math.min(requested, MAX_AUDIT_ENTRIES);
+        await vicoaClient.sendMessage(formatAuditEntries(auditLog.recent(limit)));
+        log(client, 'info', '[Vicoa] Sent recent audit log entries');
+        return true;
+      }
+
+      if (setting === 'verbosity') {
+        if (!verbosity) {
+          await vicoaClient.sendMessage('Verbosity profiles are not available.');
+          return true;
+        }
+        const requested = typeof value === 'string' ? value.trim() : '';
+        if (!requested) {
+          await vicoaClient.sendMessage(`Verbosity is ${verbosity.name}. Available profiles: ${verbosity.names.join(', ')}`);
+          return true;
+        }
+        if (!verbosity.select(requested)) {
+          log(client, 'warn', `[Vicoa] Unknown verbosity profile "${requested}"`);
+          await vicoaClient.sendMessage(`Unknown verbosity profile "${requested}". Available profiles: ${verbosity.names.join(', ')}`);
+          return true;
+        }
+        log(client, 'info', `[Vicoa] Verbosity changed to ${verbosity.name}`);
+        await vicoaClient.sendMessage(`Verbosity changed to ${verbosity.name}.`);
+        return true;
+      }
+
+      if (setting === 'queue' || setting === 'queue_cancel' || setting === 'queue_move') {
+        if (!promptQueue) {
+          await vicoaClient.sendMessage('The prompt queue is not available.');
+          return true;
+        }
+
+        if (setting === 'queue_cancel') {
+          const removed = promptQueue.cancel(value);
+          if (!removed) {
+            await vicoaClient.sendMessage(`No queued prompt ${String(value ?? '')}.\n\n${promptQueue.format()}`);
+            return true;
+          }
+          log(client, 'info', `[Vicoa] Cancelled ${removed.length} queued prompt(s)`);
+        } else if (setting === 'queue_move') {
+          const { ref, position } = parseQueueMove(value);
+          if (ref === null || position === null || !promptQueue.move(ref, position)) {
+            await vicoaClient.sendMessage(`Could not move that prompt; expected a queued #id and a position.\n\n${promptQueue.format()}`);
+            return true;
+          }
+          log(client, 'info', `[Vicoa] Moved queued prompt #${ref} to position ${position}`);
+        }
+
+        await vicoaClient.sendMessage(promptQueue.format());
+        return true;
+      }
+
       log(client, 'warn', `[Vicoa] Unknown control command: ${setting}`);
       return true;
     }
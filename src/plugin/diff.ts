@@ -0,0 +1,248 @@
+/**
+ * Line-level unified diffs for edit previews
+ *
+ * Shared by the permission formatter and the edit/multiedit/write tool
+ * formatters. Lines are compared with Myers' O(ND) algorithm after
+ * trimming the common prefix and suffix, then grouped into hunks with `@@`
+ * headers and a few lines of context. Output is capped so a huge rewrite
+ * can't flood the dashboard.
+ *
+ * Defaults: VICOA_DIFF_CONTEXT (3 lines), VICOA_DIFF_MAX_LINES (200).
+ */
+
+import { parsePositiveInt } from './utils.js';
+
+export type DiffOp = {
+  type: 'equal' | 'delete' | 'insert';
+  line: string;
+};
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];                       // prefixed with ' ', '-' or '+'
+}
+
+export interface UnifiedDiffOptions {
+  context?: number;
+  maxLines?: number;
+}
+
+// Past this many edits the middle is shown as a plain replace instead
+const MAX_EDIT_DISTANCE = 2000;
+
+function splitLines(text: string): string[] {
+  return text ? text.split('\n') : [];
+}
+
+// Myers' shortest edit script; null if it needs more than `maxEdits` edits
+function myers(a: string[], b: string[], maxEdits: number): DiffOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v for k in [-d-1, d+1] as it was before step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, maxEdits); d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace);
+      }
+    }
+  }
+  return null;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const saved = trace[d];
+    const at = (k: number) => saved[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', line: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'insert', line: b[y - 1] });
+      } else {
+        ops.push({ type: 'delete', line: a[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Line-by-line edit script turning `oldText` into `newText`
+ */
+export function diffLines(oldText: string, newText: string): DiffOp[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const middle = myers(middleA, middleB, MAX_EDIT_DISTANCE) ?? [
+    ...middleA.map((line): DiffOp => ({ type: 'delete', line })),
+    ...middleB.map((line): DiffOp => ({ type: 'insert', line })),
+  ];
+
+  return [
+    ...a.slice(0, prefix).map((line): DiffOp => ({ type: 'equal', line })),
+    ...middle,
+    ...a.slice(a.length - suffix).map((line): DiffOp => ({ type: 'equal', line })),
+  ];
+}
+
+/**
+ * Group an edit script into hunks with `context` unchanged lines around
+ * each change; nearby changes share a hunk
+ */
+export function buildHunks(ops: DiffOp[], context: number): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let trailingEqual = 0;                 // equal lines at the end of `current`
+  let oldLine = 1;
+  let newLine = 1;
+
+  for (let i = 0; i < ops.length; i++) {
+    const op = ops[i];
+
+    if (op.type === 'equal') {
+      if (current) {
+        if (trailingEqual < context) {
+          current.lines.push(` ${op.line}`);
+          current.oldLines++;
+          current.newLines++;
+          trailingEqual++;
+        } else {
+          // Close the hunk unless another change follows within reach
+          let changeAhead = false;
+          for (let j = i + 1; j <= i + context && j < ops.length; j++) {
+            if (ops[j].type !== 'equal') {
+              changeAhead = true;
+              break;
+            }
+          }
+          if (!changeAhead) {
+            hunks.push(current);
+            current = null;
+          } else {
+            current.lines.push(` ${op.line}`);
+            current.oldLines++;
+            current.newLines++;
+          }
+        }
+      }
+      oldLine++;
+      newLine++;
+      continue;
+    }
+
+    if (!current) {
+      // Open a hunk with up to `context` preceding lines
+      const lead: string[] = [];
+      for (let j = i - 1; j >= 0 && lead.length < context && ops[j].type === 'equal'; j--) {
+        lead.unshift(` ${ops[j].line}`);
+      }
+      current = {
+        oldStart: oldLine - lead.length,
+        oldLines: lead.length,
+        newStart: newLine - lead.length,
+        newLines: lead.length,
+        lines: lead,
+      };
+    }
+
+    trailingEqual = 0;
+    if (op.type === 'delete') {
+      current.lines.push(`-${op.line}`);
+      current.oldLines++;
+      oldLine++;
+    } else {
+      current.lines.push(`+${op.line}`);
+      current.newLines++;
+      newLine++;
+    }
+  }
+
+  if (current) {
+    hunks.push(current);
+  }
+  return hunks;
+}
+
+function hunkHeader(hunk: DiffHunk): string {
+  // Unified diff convention: an empty side starts at the line before
+  const oldStart = hunk.oldLines === 0 ? hunk.oldStart - 1 : hunk.oldStart;
+  const newStart = hunk.newLines === 0 ? hunk.newStart - 1 : hunk.newStart;
+  return `@@ -${oldStart},${hunk.oldLines} +${newStart},${hunk.newLines} @@`;
+}
+
+/**
+ * Unified diff body (hunk headers and lines, no file headers), capped at
+ * `maxLines` with a note saying how much was left out
+ */
+export function formatUnifiedDiff(oldText: string, newText: string, options: UnifiedDiffOptions = {}): string[] {
+  const context = options.context ?? parsePositiveInt(process.env.VICOA_DIFF_CONTEXT, 3);
+  const maxLines = options.maxLines ?? parsePositiveInt(process.env.VICOA_DIFF_MAX_LINES, 200);
+
+  const lines: string[] = [];
+  for (const hunk of buildHunks(diffLines(oldText, newText), context)) {
+    lines.push(hunkHeader(hunk), ...hunk.lines);
+  }
+
+  if (lines.length > maxLines) {
+    const omitted = lines.length - maxLines;
+    return [...lines.slice(0, maxLines), `… ${omitted} more diff line${omitted === 1 ? '' : 's'} not shown`];
+  }
+  return lines;
+}
+
+/**
+ * Unified diff wrapped in a ```diff fence for the dashboard
+ */
+export function formatDiffBlock(oldText: string, newText: string, options: UnifiedDiffOptions = {}): string[] {
+  return ['```diff', ...formatUnifiedDiff(oldText, newText, options), '```'];
+}
@@ -0,0 +1,93 @@
+/**
+ * Recognizes prompts the plugin itself submitted when OpenCode reports them
+ *
+ * Every user message reaches the chat.message hook, including the ones we
+ * just forwarded from the dashboard; those must not be mirrored back as if
+ * typed in the terminal. Prompts submitted through the session API carry a
+ * message ID we chose, so they are matched exactly by ID. Prompts typed into
+ * the TUI have no ID we know, so they fall back to matching the text, but
+ * only within a short window and only once — the same text typed in the
+ * terminal later is forwarded normally.
+ *
+ * Window for text matches is VICOA_ECHO_TTL_MS (default 60000).
+ */
+
+import { parsePositiveInt } from './utils.js';
+
+type ExpectedText = {
+  text: string;
+  expiresAt: number;
+};
+
+// IDs whose chat.message never arrived (failed submissions) are dropped after this
+const ID_TTL_MS = 10 * 60 * 1000;
+
+function normalize(content: string): string {
+  return content.replace(/\r\n/g, '\n').trim();
+}
+
+export class EchoTracker {
+  private ids = new Map<string, number>();           // message ID -> expiry
+  private texts: ExpectedText[] = [];
+  private textTtlMs: number;
+  private now: () => number;
+
+  constructor(
+    textTtlMs: number = parsePositiveInt(process.env.VICOA_ECHO_TTL_MS, 60000),
+    now: () => number = Date.now
+  ) {
+    this.textTtlMs = textTtlMs;
+    this.now = now;
+  }
+
+  /**
+   * A prompt was submitted with this OpenCode message ID
+   */
+  expectId(messageId: string): void {
+    this.prune();
+    this.ids.set(messageId, this.now() + ID_TTL_MS);
+  }
+
+  /**
+   * A prompt was typed into the TUI; its message ID isn't known
+   */
+  expectText(content: string): void {
+    this.prune();
+    this.texts.push({ text: normalize(content), expiresAt: this.now() + this.textTtlMs });
+  }
+
+  /**
+   * The submission failed; nothing will arrive for this ID
+   */
+  forgetId(messageId: string): void {
+    this.ids.delete(messageId);
+  }
+
+  /**
+   * Whether a user message is the echo of one of our submissions. A match
+   * is consumed, so each submission suppresses exactly one message.
+   */
+  isEcho(messageId: string, content: string): boolean {
+    this.prune();
+    if (this.ids.delete(messageId)) {
+      return true;
+    }
+
+    // Oldest first, so repeated identical prompts are matched in order
+    const text = normalize(content);
+    const index = this.texts.findIndex((expected) => expected.text === text);
+    if (index === -1) {
+      return false;
+    }
+    this.texts.splice(index, 1);
+    return true;
+  }
+
+  private prune(): void {
+    const now = this.now();
+    this.texts = this.texts.filter((expected) => expected.expiresAt > now);
+    for (const [messageId, expiresAt] of this.ids) {
+      if (expiresAt <= now) this.ids.delete(messageId);
+    }
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * End-to-end encryption of message content
+ *
+ * When enabled in the plugin config (`"encryption": { "enabled": true }`),
+ * VicoaClient encrypts the content of every message it sends and decrypts
+ * the dashboard messages it receives, so the Vicoa backend only ever stores
+ * ciphertext. Keys live in a keyring next to credentials.json and must be
+ * copied to the dashboard devices that should read the conversation:
+ *
+ *   ~/.vicoa/encryption.json
+ *   { "active": "3f9a1c2e", "keys": { "3f9a1c2e": "<base64, 32 bytes>" } }
+ *
+ * A keyring with one fresh key is created on first use. To rotate, add a
+ * new key and point `active` at it; the file is re-read when it changes, new
+ * messages use the active key and older keys stay available for decrypting
+ * messages encrypted before the rotation. Remove a key once nothing needs it.
+ *
+ * Content is sealed with AES-256-GCM as
+ *   vicoa-e2e:v1:<key id>:<base64 iv>:<base64 ciphertext + tag>
+ * with `vicoa-e2e:v1:<key id>` as additional authenticated data.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface EncryptionConfig {
+  enabled?: boolean;
+  keyringPath?: string;
+}
+
+interface KeyringFile {
+  active: string;
+  keys: Record<string, string>;
+}
+
+type Keyring = {
+  active: string;
+  keys: Map<string, Buffer>;
+  mtimeMs: number;
+};
+
+const PREFIX = 'vicoa-e2e';
+const VERSION = 'v1';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_ID = /^[A-Za-z0-9_.-]+$/;
+
+/**
+ * Get default path of the encryption keyring
+ */
+export function getKeyringPath(): string {
+  return path.join(os.homedir(), '.vicoa', 'encryption.json');
+}
+
+/**
+ * Whether content is an encrypted envelope
+ */
+export function isEncryptedContent(content: string): boolean {
+  return content.startsWith(`${PREFIX}:`);
+}
+
+function expandHome(filePath: string): string {
+  return filePath.startsWith('~/') ? path.join(os.homedir(), filePath.slice(2)) : filePath;
+}
+
+export class MessageCipher {
+  private keyringPath: string;
+  private keyring: Keyring | null = null;
+  private lastLoadError: string | null = null;
+  private log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+
+  constructor(
+    config: EncryptionConfig,
+    log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void
+  ) {
+    this.log = log;
+    this.keyringPath = config.keyringPath ? expandHome(config.keyringPath) : getKeyringPath();
+  }
+
+  /**
+   * Load the keyring, creating it if missing. Throws with the reason if it
+   * is unusable, so a misconfiguration fails at startup rather than on the
+   * first message.
+   */
+  init(): void {
+    if (!fs.existsSync(this.keyringPath)) {
+      this.createKeyring();
+    }
+    const keyring = this.read();
+    this.log('info', `[Vicoa] End-to-end encryption on (active key ${keyring.active}, ${keyring.keys.size} key${keyring.keys.size === 1 ? '' : 's'} in ${this.keyringPath})`);
+  }
+
+  /**
+   * Seal content with the active key
+   */
+  encrypt(plaintext: string): string {
+    const keyring = this.load();
+    const key = keyring.keys.get(keyring.active)!;
+    const header = `${PREFIX}:${VERSION}:${keyring.active}`;
+    const iv = randomBytes(IV_BYTES);
+
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(Buffer.from(header, 'utf-8'));
+    const sealed = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final(), cipher.getAuthTag()]);
+
+    return `${header}:${iv.toString('base64')}:${sealed.toString('base64')}`;
+  }
+
+  /**
+   * Open an envelope. Throws an error saying why when the content isn't
+   * encrypted, names an unknown key, or fails authentication.
+   */
+  decrypt(content: string): string {
+    if (!isEncryptedContent(content)) {
+      throw new Error('message is not encrypted; plaintext is refused while end-to-end encryption is on');
+    }
+
+    const parts = content.split(':');
+    if (parts.length !== 5 || parts[1] !== VERSION) {
+      throw new Error(`unsupported envelope (expected ${PREFIX}:${VERSION}:<key id>:<iv>:<ciphertext>)`);
+    }
+
+    const [, , keyId, ivText, sealedText] = parts;
+    const key = this.load().keys.get(keyId);
+    if (!key) {
+      throw new Error(`encrypted with key "${keyId}", which is not in ${this.keyringPath}`);
+    }
+
+    const iv = Buffer.from(ivText, 'base64');
+    const sealed = Buffer.from(sealedText, 'base64');
+    if (iv.length !== IV_BYTES || sealed.length < TAG_BYTES) {
+      throw new Error('malformed envelope');
+    }
+
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key, iv);
+      decipher.setAAD(Buffer.from(`${PREFIX}:${VERSION}:${keyId}`, 'utf-8'));
+      decipher.setAuthTag(sealed.subarray(sealed.length - TAG_BYTES));
+      return Buffer.concat([decipher.update(sealed.subarray(0, sealed.length - TAG_BYTES)), decipher.final()])
+        .toString('utf-8');
+    } catch {
+      throw new Error(`authentication failed with key "${keyId}" (wrong key or tampered message)`);
+    }
+  }
+
+  // Re-read the keyring whenever the file changes so rotation needs no restart.
+  // A broken edit mid-run keeps the last good keyring rather than failing sends.
+  private load(): Keyring {
+    try {
+      return this.read();
+    } catch (error) {
+      if (!this.keyring) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      if (message !== this.lastLoadError) {
+        this.lastLoadError = message;
+        this.log('warn', `[Vicoa] ${message}; still using key ${this.keyring.active}`);
+      }
+      return this.keyring;
+    }
+  }
+
+  private read(): Keyring {
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(this.keyringPath).mtimeMs;
+    } catch (error) {
+      throw new Error(`Encryption keyring ${this.keyringPath} is unreadable: ${error}`);
+    }
+    if (this.keyring && this.keyring.mtimeMs === mtimeMs) {
+      return this.keyring;
+    }
+
+    let data: KeyringFile;
+    try {
+      data = JSON.parse(fs.readFileSync(this.keyringPath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Encryption keyring ${this.keyringPath} is not valid JSON: ${error}`);
+    }
+
+    const keys = new Map<string, Buffer>();
+    for (const [id, value] of Object.entries(data?.keys ?? {})) {
+      const key = typeof value === 'string' ? Buffer.from(value, 'base64') : Buffer.alloc(0);
+      if (!KEY_ID.test(id) || key.length !== KEY_BYTES) {
+        throw new Error(`Encryption key "${id}" in ${this.keyringPath} must be a base64-encoded ${KEY_BYTES}-byte key with an id of letters, digits, "_", "." or "-"`);
+      }
+      keys.set(id, key);
+    }
+    if (!keys.has(data?.active)) {
+      throw new Error(`Active encryption key "${data?.active}" is missing from ${this.keyringPath}`);
+    }
+
+    if (this.keyring && this.keyring.active !== data.active) {
+      this.log('info', `[Vicoa] Encryption key rotated to ${data.active}`);
+    }
+    this.keyring = { active: data.active, keys, mtimeMs };
+    this.lastLoadError = null;
+    return this.keyring;
+  }
+
+  private createKeyring(): void {
+    const id = randomBytes(4).toString('hex');
+    const data: KeyringFile = { active: id, keys: { [id]: randomBytes(KEY_BYTES).toString('base64') } };
+
+    fs.mkdirSync(path.dirname(this.keyringPath), { recursive: true });
+    fs.writeFileSync(this.keyringPath, `${JSON.stringify(data, null, 2)}\n`, { encoding: 'utf-8', mode: 0o600 });
+    this.log('warn', `[Vicoa] Created encryption keyring ${this.keyringPath}; copy it to your dashboard devices to read this session`);
+  }
+}
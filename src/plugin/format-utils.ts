@@ -1,4 +1,12 @@
 import type { FilePart, PatchPart, ReasoningPart, ToolPart } from '@opencode-ai/sdk';
+import { formatDiffBlock } from './diff.js';
+import {
+  BUILTIN_PROFILES,
+  DEFAULT_PROFILE,
+  getTruncateLimit,
+  shouldShowToolResult,
+  type VerbosityProfile,
+} from './verbosity.js';
 
 const LANGUAGE_MAP: Record<string, string> = {
   py: 'python',
@@ -74,82 +82,6 @@ function getArray<T>(input: ToolInput, keys: string[]): T[] {
   return [];
 }
 
-function formatDiffBlock(oldText: string, newText: string): string[] {
-  const diffLines: string[] = ['```diff'];
-
-  if (!oldText && newText) {
-    for (const line of newText.split('\n')) {
-      diffLines.push(`+ ${line}`);
-    }
-  } else if (oldText && !newText) {
-    for (const line of oldText.split('\n')) {
-      diffLines.push(`- ${line}`);
-    }
-  } else {
-    const oldLines = oldText.split('\n');
-    const newLines = newText.split('\n');
-
-    const commonPrefix: string[] = [];
-    const commonSuffix: string[] = [];
-
-    for (let i = 0; i < Math.min(oldLines.length, newLines.length); i += 1) {
-      if (oldLines[i] === newLines[i]) {
-        commonPrefix.push(oldLines[i]);
-      } else {
-        break;
-      }
-    }
-
-    const oldRemaining = oldLines.slice(commonPrefix.length);
-    const newRemaining = newLines.slice(commonPrefix.length);
-
-    if (oldRemaining.length && newRemaining.length) {
-      for (let i = 1; i <= Math.min(oldRemaining.length, newRemaining.length); i += 1) {
-        if (oldRemaining[oldRemaining.length - i] === newRemaining[newRemaining.length - i]) {
-          commonSuffix.unshift(oldRemaining[oldRemaining.length - i]);
-        } else {
-          break;
-        }
-      }
-    }
-
-    const changedOld = commonSuffix.length
-      ? oldRemaining.slice(0, oldRemaining.length - commonSuffix.length)
-      : oldRemaining;
-    const changedNew = commonSuffix.length
-      ? newRemaining.slice(0, newRemaining.length - commonSuffix.length)
-      : newRemaining;
-
-    if ((commonPrefix.length || commonSuffix.length) && (changedOld.length || changedNew.length)) {
-      const contextBefore = commonPrefix.slice(-2);
-      const contextAfter = commonSuffix.slice(0, 2);
-
-      for (const line of contextBefore) {
-        diffLines.push(`  ${line}`);
-      }
-      for (const line of changedOld) {
-        diffLines.push(`- ${line}`);
-      }
-      for (const line of changedNew) {
-        diffLines.push(`+ ${line}`);
-      }
-      for (const line of contextAfter) {
-        diffLines.push(`  ${line}`);
-      }
-    } else {
-      for (const line of oldLines) {
-        diffLines.push(`- ${line}`);
-      }
-      for (const line of newLines) {
-        diffLines.push(`+ ${line}`);
-      }
-    }
-  }
-
-  diffLines.push('```');
-  return diffLines;
-}
-
 export function formatToolUsage(toolName: string, inputData: ToolInput): string {
   if (toolName.startsWith('mcp__vicoa__')) {
     return `Using tool: ${toolName}`;
@@ -160,11 +92,11 @@ export function formatToolUsage(toolName: string, inputData: ToolInput): string
   if (normalizedTool === 'write') {
     const filePath = getString(inputData, ['file_path', 'filePath', 'path', 'filename'], 'unknown');
     const content = getString(inputData, ['content', 'text', 'value']);
-    const lang = detectLanguage(filePath);
+    if (!content) {
+      return `Using tool: Write - \`${filePath}\``;
+    }
 
-    return [`Using tool: Write - \`${filePath}\``, `\`\`\`${lang}`, content, '```']
-      .filter((line) => line.length > 0)
-      .join('\n');
+    return [`Using tool: Write - \`${filePath}\``, ...formatDiffBlock('', content)].join('\n');
   }
 
   if (normalizedTool === 'read' || normalizedTool === 'notebookread' || normalizedTool === 'notebookedit') {
@@ -304,12 +236,11 @@ export function formatToolUsage(toolName: string, inputData: ToolInput): string
   return `Using tool: ${toolName}`;
 }
 
-// Most tool outputs don't need truncation - show them in full.
-// Only truncate for tools that tend to produce very large/noisy output.
-const TRUNCATE_OUTPUT_TOOLS = new Set(['']);  // set to empty for not to filter message now.
-const TRUNCATE_LIMIT = 500;
-
-export function formatToolResult(output: string, toolName?: string): string {
+export function formatToolResult(
+  output: string,
+  toolName?: string,
+  profile: VerbosityProfile = BUILTIN_PROFILES[DEFAULT_PROFILE]
+): string {
   try {
     const parsed = JSON.parse(output);
     if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
@@ -321,34 +252,22 @@ export function formatToolResult(output: string, toolName?: string): string {
     // not JSON
   }
 
-  // Default: don't truncate tool output unless it's in the truncate list
-  if (toolName && TRUNCATE_OUTPUT_TOOLS.has(toolName.toLowerCase())) {
-    return truncateText(output, TRUNCATE_LIMIT);
-  }
-
-  return output;
+  // Tool output is shown in full unless the profile sets a limit for it
+  const limit = toolName ? getTruncateLimit(profile, toolName) : null;
+  return limit ? truncateText(output, limit) : output;
 }
 
-// Tools whose Result line is noise: either raw file/list content (read-side)
-// or a boilerplate success confirmation like "Edit applied successfully."
-// (write-side).  Only the usage line is shown for these.
-const SUPPRESS_OUTPUT_TOOLS = new Set([
-  'read', 'notebookread', 'list', 'ls', 'glob', 'grep', 'todoread', 'lsp',
-  'write', 'edit', 'multiedit', 'patch', 'notebookedit', 'todowrite',
-]);
-
-export function shouldSuppressToolOutput(toolName: string): boolean {
-  return SUPPRESS_OUTPUT_TOOLS.has(toolName.toLowerCase());
-}
-
-export function formatToolPart(toolPart: ToolPart): string {
+export function formatToolPart(
+  toolPart: ToolPart,
+  profile: VerbosityProfile = BUILTIN_PROFILES[DEFAULT_PROFILE]
+): string {
   const base = formatToolUsage(toolPart.tool, toolPart.state.input ?? {});
 
   if (toolPart.state.status === 'completed') {
-    if (shouldSuppressToolOutput(toolPart.tool)) {
+    if (!shouldShowToolResult(profile, toolPart.tool)) {
       return base;
     }
-    const result = toolPart.state.output ? formatToolResult(toolPart.state.output, toolPart.tool) : '[empty]';
+    const result = toolPart.state.output ? formatToolResult(toolPart.state.output, toolPart.tool, profile) : '[empty]';
     // Filter out empty results - just show the tool usage
     if (result === '[empty]') {
       return base;
@@ -364,11 +283,15 @@ export function formatToolPart(toolPart: ToolPart): string {
   return base;
 }
 
-export function formatReasoningPart(part: ReasoningPart): string {
-  if (!part.text) {
+export function formatReasoningPart(
+  part: ReasoningPart,
+  profile: VerbosityProfile = BUILTIN_PROFILES[DEFAULT_PROFILE]
+): string {
+  if (!part.text || profile.reasoning === 'hidden') {
     return '';
   }
-  return `[Thinking: ${truncateText(part.text, 200)}]`;
+  const text = profile.reasoning === 'summary' ? truncateText(part.text, profile.reasoningLimit) : part.text;
+  return `[Thinking: ${text}]`;
 }
 
 export function formatFilePart(part: FilePart): string {
@@ -393,3 +316,106 @@ export function formatPatchPart(part: PatchPart): string {
   }
   return 'Patch updated';
 }
+
+export function formatElapsed(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return rest ? `${minutes}m ${rest}s` : `${minutes}m`;
+}
+
+/**
+ * Format a tool part as a live dashboard card: the usage line while it runs,
+ * the full formatToolPart output once it finishes, plus how long it took.
+ */
+export function formatToolCard(
+  toolPart: ToolPart,
+  profile: VerbosityProfile = BUILTIN_PROFILES[DEFAULT_PROFILE],
+  now: number = Date.now()
+): string {
+  const state = toolPart.state;
+
+  if (state.status === 'running') {
+    const base = formatToolUsage(toolPart.tool, state.input ?? {});
+    return `${base}\n*Running… ${formatElapsed(now - state.time.start)}*`;
+  }
+
+  if (state.status === 'completed') {
+    return `${formatToolPart(toolPart, profile)}\n*Completed in ${formatElapsed(state.time.end - state.time.start)}*`;
+  }
+
+  if (state.status === 'error') {
+    return `${formatToolPart(toolPart, profile)}\n*Failed after ${formatElapsed(state.time.end - state.time.start)}*`;
+  }
+
+  return formatToolPart(toolPart, profile);
+}
+
+export type SubagentStep = {
+  label: string;
+  status: ToolPart['state']['status'];
+};
+
+const MAX_SUBAGENT_STEPS_SHOWN = 8;
+const SUBAGENT_STATUS_MARKS: Record<SubagentStep['status'], string> = {
+  pending: '…',
+  running: '…',
+  completed: '✓',
+  error: '✗',
+};
+
+/**
+ * Summarize what a subagent did in its child session, for the parent's task
+ * card: its most recent tool calls with their outcome and its latest message.
+ */
+export function formatSubagentActivity(steps: SubagentStep[], lastMessage: string): string {
+  if (steps.length === 0 && !lastMessage) {
+    return '';
+  }
+
+  const lines = [`**Subagent** — ${steps.length} step${steps.length === 1 ? '' : 's'}`];
+  const hidden = steps.length - MAX_SUBAGENT_STEPS_SHOWN;
+  if (hidden > 0) {
+    lines.push(`… ${hidden} earlier`);
+  }
+  for (const step of steps.slice(-MAX_SUBAGENT_STEPS_SHOWN)) {
+    lines.push(`${SUBAGENT_STATUS_MARKS[step.status]} ${step.label.replace(/^Using tool: /, '')}`);
+  }
+  if (lastMessage) {
+    lines.push(`> ${truncateText(lastMessage.replace(/\s+/g, ' ').trim(), 300)}`);
+  }
+  return lines.join('\n');
+}
+
+// When the user types @filename or @folder, OpenCode resolves it by calling
+// the read/list tool and appending the result into the user message. Forms:
+//   1) "Called the Read tool with the following input: {…}\n<file>…</file>"
+//   2) bare "<file>…</file>" blocks (sometimes without the header)
+//   3) unclosed "<file>" tag followed by content (when both folder + file selected)
+//   4) directory listings (folder tree with indented file names)
+// Strip all of these so only the real prompt survives.
+const TOOL_RESULT_HEADER = /Called the \w+ tool with the following input:[\s\S]*/;
+const FILE_BLOCK = /<file>[\s\S]*?<\/file>/g;
+const UNCLOSED_FILE_TAG = /<file>[\s\S]*/g;  // Match <file> tag without closing
+const DIRECTORY_LISTING = /^\/[^\n]+\/\n(?:[ \t]+[^\n]+\n)+/gm;  // Match directory tree structure
+
+export function stripToolResults(text: string): string {
+  let cleaned = text;
+
+  // Strip tool result headers
+  cleaned = cleaned.replace(TOOL_RESULT_HEADER, '');
+
+  // Strip closed file blocks first
+  cleaned = cleaned.replace(FILE_BLOCK, '');
+
+  // Strip unclosed file tags with content (must come after closed blocks)
+  cleaned = cleaned.replace(UNCLOSED_FILE_TAG, '');
+
+  // Strip directory listings (folder path + indented file list)
+  cleaned = cleaned.replace(DIRECTORY_LISTING, '');
+
+  return cleaned;
+}
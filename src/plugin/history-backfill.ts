@@ -0,0 +1,173 @@
+/**
+ * Backfill of existing session history to the Vicoa dashboard
+ *
+ * When a session that already has messages gets bound to an agent instance
+ * (after a restart, a session switch, or a session started before the
+ * plugin loaded), its transcript is rendered with the same formatters the
+ * live path uses and uploaded in order. Messages the conversation already
+ * shows are skipped, and only the most recent VICOA_BACKFILL_LIMIT messages
+ * (default 20, 0 disables backfill) are sent, behind a marker saying how
+ * many earlier ones were left out.
+ */
+
+import type { FilePart, Message, Part, PatchPart, ReasoningPart, TextPart, ToolPart } from '@opencode-ai/sdk';
+import type { VicoaClient } from './vicoa-client.js';
+import {
+  formatFilePart,
+  formatPatchPart,
+  formatReasoningPart,
+  formatToolPart,
+  stripToolResults,
+} from './format-utils.js';
+import { parsePositiveInt } from './utils.js';
+import { BUILTIN_PROFILES, DEFAULT_PROFILE, isToolHidden, type VerbosityProfile } from './verbosity.js';
+
+export type HistoryMessage = {
+  info: Message;
+  parts: Part[];
+};
+
+export interface BackfillOptions {
+  vicoaClient: VicoaClient;
+  // IDs the dashboard already has; nothing up to the last of these is re-sent
+  sentMessageIds: Set<string>;
+  onSent: (messageId: string) => void;
+  limit?: number;
+  profile?: VerbosityProfile;
+}
+
+type RenderedMessage = {
+  id: string;
+  role: 'user' | 'assistant';
+  contents: string[];
+};
+
+/**
+ * Read the backfill cap from VICOA_BACKFILL_LIMIT
+ */
+export function getBackfillLimit(): number {
+  if (process.env.VICOA_BACKFILL_LIMIT?.trim() === '0') {
+    return 0;
+  }
+  return parsePositiveInt(process.env.VICOA_BACKFILL_LIMIT, 20);
+}
+
+function formatSafe<T>(format: (part: T) => string, part: T, fallback: string): string {
+  try {
+    return format(part);
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Render a stored message as the dashboard entries live mirroring would
+ * have produced: the user's prompt, or an assistant turn's tool lines
+ * followed by its assembled text.
+ */
+export function renderHistoryMessage(
+  entry: HistoryMessage,
+  profile: VerbosityProfile = BUILTIN_PROFILES[DEFAULT_PROFILE]
+): RenderedMessage | null {
+  const { info, parts } = entry;
+
+  if (info.role === 'user') {
+    const text = parts
+      .filter((part): part is TextPart => part.type === 'text' && !part.synthetic)
+      .map((part) => stripToolResults(part.text))
+      .filter((value) => value.trim().length > 0)
+      .join('\n');
+    return text ? { id: info.id, role: 'user', contents: [text] } : null;
+  }
+
+  // Unfinished turns are still streaming; the live path picks them up
+  if (!info.time.completed) {
+    return null;
+  }
+
+  const contents: string[] = [];
+  const textParts: string[] = [];
+  for (const part of parts) {
+    switch (part.type) {
+      case 'tool': {
+        const toolPart = part as ToolPart;
+        if (isToolHidden(profile, toolPart.tool)) break;
+        const line = formatSafe((tool: ToolPart) => formatToolPart(tool, profile), toolPart, `Using tool: ${toolPart.tool}`);
+        if (line) contents.push(line);
+        break;
+      }
+      case 'text':
+        if (part.text.trim()) textParts.push(part.text);
+        break;
+      case 'reasoning': {
+        const thinking = formatSafe((reasoning: ReasoningPart) => formatReasoningPart(reasoning, profile), part as ReasoningPart, '');
+        if (thinking) textParts.push(thinking);
+        break;
+      }
+      case 'file': {
+        const file = part as FilePart;
+        const isImage = Boolean(file.mime?.startsWith('image/') && file.url);
+        if (profile.files === 'all' || (profile.files === 'images' && isImage)) {
+          textParts.push(formatSafe(formatFilePart, file, 'File attached'));
+        }
+        break;
+      }
+      case 'patch':
+        if (profile.patches) textParts.push(formatSafe(formatPatchPart, part as PatchPart, 'Patch updated'));
+        break;
+      default:
+        break;
+    }
+  }
+
+  const text = textParts.join('\n\n').trim();
+  if (text) {
+    contents.push(text);
+  }
+  return contents.length ? { id: info.id, role: 'assistant', contents } : null;
+}
+
+/**
+ * Upload the part of `history` the dashboard hasn't seen yet. Writes are
+ * submitted synchronously, in transcript order, so anything the caller
+ * sends afterwards lands behind them. Returns how many messages were sent.
+ */
+export function backfillHistory(history: HistoryMessage[], options: BackfillOptions): number {
+  const limit = options.limit ?? getBackfillLimit();
+  if (limit === 0) {
+    return 0;
+  }
+
+  // Only what came after the newest message we know was delivered
+  let start = 0;
+  history.forEach((entry, index) => {
+    if (options.sentMessageIds.has(entry.info.id)) {
+      start = index + 1;
+    }
+  });
+
+  const pending = history
+    .slice(start)
+    .map((entry) => renderHistoryMessage(entry, options.profile))
+    .filter((message): message is RenderedMessage => message !== null);
+  if (pending.length === 0) {
+    return 0;
+  }
+
+  const omitted = Math.max(0, pending.length - limit);
+  const toSend = pending.slice(omitted);
+  const { vicoaClient } = options;
+
+  if (omitted > 0) {
+    void vicoaClient.sendMessage(`*… ${omitted} earlier message${omitted === 1 ? '' : 's'} not shown*`);
+  }
+
+  for (const message of toSend) {
+    for (const content of message.contents) {
+      void (message.role === 'user' ? vicoaClient.sendUserMessage(content) : vicoaClient.sendMessage(content));
+    }
+    options.onSent(message.id);
+  }
+
+  return toSend.length;
+}
@@ -0,0 +1,191 @@
+/**
+ * Inbound transports for dashboard → OpenCode messages
+ *
+ * A transport only knows how to get batches of VicoaMessages out of the
+ * backend; MessagePoller decides which one is active and dispatches what
+ * they deliver.
+ * - StreamingTransport: server-sent events, messages arrive as soon as they exist
+ * - PollingTransport: GET /messages/pending on an adaptive cadence (the fallback)
+ */
+
+import type { PollScheduler } from './poll-scheduler.js';
+import type { VicoaClient, VicoaMessage } from './vicoa-client.js';
+
+export type InboundHandler = (messages: VicoaMessage[]) => Promise<void>;
+
+export interface InboundTransport {
+  readonly name: 'stream' | 'poll';
+  start(handler: InboundHandler): void;
+  stop(): void;
+}
+
+export class PollingTransport implements InboundTransport {
+  readonly name = 'poll';
+  private client: VicoaClient;
+  private timer: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+  private pollingInProgress: boolean = false;
+  private scheduler: PollScheduler;
+  private handler: InboundHandler | null = null;
+  private log: (level: string, msg: string) => void;
+
+  constructor(client: VicoaClient, log: (level: string, msg: string) => void, scheduler: PollScheduler) {
+    this.client = client;
+    this.log = log;
+    this.scheduler = scheduler;
+  }
+
+  start(handler: InboundHandler): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.handler = handler;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    this.handler = null;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Cut the current wait short after activity so a reply is picked up
+   * quickly (but never before backend throttling allows)
+   */
+  wake(): void {
+    this.scheduler.markActivity();
+    if (this.running && !this.pollingInProgress) {
+      this.schedule(this.scheduler.nextDelay(false, null));
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.poll();
+    }, delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    if (this.pollingInProgress || !this.handler) {
+      return;
+    }
+
+    this.pollingInProgress = true;
+    let received = false;
+    try {
+      const messages = await this.client.getPendingMessages();
+      received = messages.length > 0;
+      if (received) {
+        await this.handler(messages);
+      }
+    } catch (error) {
+      this.log('warn', `Error polling messages: ${error}`);
+    } finally {
+      this.pollingInProgress = false;
+    }
+
+    if (this.running) {
+      this.schedule(this.scheduler.nextDelay(received, this.client.consumePollThrottle()));
+    }
+  }
+}
+
+export class StreamingTransport implements InboundTransport {
+  readonly name = 'stream';
+  private client: VicoaClient;
+  private log: (level: string, msg: string) => void;
+  private onUnavailable: () => void;
+  private controller: AbortController | null = null;
+  private maxConnectFailures: number;
+  private reconnectDelayMs: number;
+
+  /**
+   * @param onUnavailable - called (and the transport stops) once the stream
+   *   has failed to open `maxConnectFailures` times in a row
+   */
+  constructor(
+    client: VicoaClient,
+    log: (level: string, msg: string) => void,
+    onUnavailable: () => void,
+    maxConnectFailures: number = 2,
+    reconnectDelayMs: number = 1000
+  ) {
+    this.client = client;
+    this.log = log;
+    this.onUnavailable = onUnavailable;
+    this.maxConnectFailures = maxConnectFailures;
+    this.reconnectDelayMs = reconnectDelayMs;
+  }
+
+  start(handler: InboundHandler): void {
+    if (this.controller) {
+      return;
+    }
+
+    const controller = new AbortController();
+    this.controller = controller;
+    void this.run(handler, controller.signal);
+  }
+
+  stop(): void {
+    this.controller?.abort();
+    this.controller = null;
+  }
+
+  private async run(handler: InboundHandler, signal: AbortSignal): Promise<void> {
+    let connectFailures = 0;
+    let reconnects = 0;
+
+    while (!signal.aborted) {
+      let opened = false;
+      try {
+        await this.client.streamMessages(
+          {
+            onOpen: () => {
+              opened = true;
+              connectFailures = 0;
+              reconnects = 0;
+              this.log('debug', 'Message stream connected');
+            },
+            onMessages: handler,
+          },
+          signal
+        );
+        this.log('debug', 'Message stream ended by server');
+      } catch (error) {
+        if (signal.aborted) {
+          return;
+        }
+        this.log('debug', `Message stream error: ${error}`);
+      }
+
+      if (signal.aborted) {
+        return;
+      }
+
+      if (!opened) {
+        connectFailures += 1;
+        if (connectFailures >= this.maxConnectFailures) {
+          this.stop();
+          this.onUnavailable();
+          return;
+        }
+      }
+
+      // Back off between reconnects, capped at 30s
+      const delay = Math.min(30000, this.reconnectDelayMs * 2 ** reconnects);
+      reconnects += 1;
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
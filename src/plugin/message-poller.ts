@@ -1,67 +1,153 @@
 /**
- * Polls Vicoa backend for user messages and sends them to OpenCode
+ * Receives user messages from the Vicoa backend and sends them to OpenCode
  *
  * This mimics the Claude wrapper's message queue and polling functionality.
+ * Messages are pushed over a server-sent event stream when the backend
+ * supports it; polling is the automatic fallback. Either way, `onMessage`
+ * sees the same messages in the same order.
+ *
+ * Set VICOA_INBOUND_TRANSPORT=poll to skip the stream entirely. The polling
+ * cadence adapts to the session status (see poll-scheduler.ts).
  */
 
-import type { VicoaClient } from './vicoa-client.js';
+import type { VicoaClient, VicoaMessage } from './vicoa-client.js';
+import { PollingTransport, StreamingTransport, type InboundTransport } from './inbound-transport.js';
+import { PollScheduler, loadPollScheduleConfig, type PollSignals } from './poll-scheduler.js';
+import { parsePositiveInt } from './utils.js';
+
+export type InboundTransportMode = 'auto' | 'poll';
+
+export interface MessagePollerOptions extends PollSignals {
+  pollIntervalMs?: number;               // fastest polling cadence
+  mode?: InboundTransportMode;
+}
+
+function resolveTransportMode(value: string | undefined): InboundTransportMode {
+  return value?.trim().toLowerCase() === 'poll' ? 'poll' : 'auto';
+}
 
 export class MessagePoller {
   private client: VicoaClient;
-  private interval: NodeJS.Timeout | null = null;
-  private pollingInProgress: boolean = false;
-  private pollIntervalMs: number;
-  private onMessage: (content: string) => Promise<void>;
+  private transport: InboundTransport | null = null;
+  private streamRetryTimer: NodeJS.Timeout | null = null;
+  private dispatchChain: Promise<void> = Promise.resolve();
+  private scheduler: PollScheduler;
+  private streamRetryMs: number;
+  private mode: InboundTransportMode;
+  private onMessage: (content: string, message: VicoaMessage) => Promise<void>;
   private log: (level: string, msg: string) => void;
 
   constructor(
     client: VicoaClient,
-    onMessage: (content: string) => Promise<void>,
+    onMessage: (content: string, message: VicoaMessage) => Promise<void>,
     logFunc?: (level: string, msg: string) => void,
-    pollIntervalMs: number = 1000
+    options: MessagePollerOptions = {}
   ) {
     this.client = client;
     this.onMessage = onMessage;
-    this.pollIntervalMs = pollIntervalMs;
+    this.mode = options.mode ?? resolveTransportMode(process.env.VICOA_INBOUND_TRANSPORT);
+    this.streamRetryMs = parsePositiveInt(process.env.VICOA_STREAM_RETRY_MS, 5 * 60 * 1000);
     this.log = logFunc || ((level, msg) => console.log(`[${level}] ${msg}`));
+    this.scheduler = new PollScheduler(loadPollScheduleConfig(options.pollIntervalMs), options, this.log);
+  }
+
+  /**
+   * Name of the transport currently delivering messages, if running
+   */
+  get activeTransport(): InboundTransport['name'] | null {
+    return this.transport?.name ?? null;
   }
 
   start(): void {
-    if (this.interval) {
+    if (this.transport) {
       return;
     }
 
     this.log('info', 'Starting message poller');
 
-    this.interval = setInterval(async () => {
-      if (this.pollingInProgress) {
-        return;
-      }
+    if (this.mode === 'poll') {
+      this.useTransport(new PollingTransport(this.client, this.log, this.scheduler));
+      return;
+    }
 
-      this.pollingInProgress = true;
-      try {
-        const messages = await this.client.getPendingMessages();
+    this.useStream();
+  }
 
-        for (const msg of messages) {
-          if (msg.sender_type === 'USER' && msg.content) {
-            this.log('debug', `Received user message: ${msg.content.substring(0, 100)}...`);
-            await this.onMessage(msg.content);
-          }
-        }
-      } catch (error) {
-        this.log('warn', `Error polling messages: ${error}`);
-      } finally {
-        this.pollingInProgress = false;
-      }
-    }, this.pollIntervalMs);
+  /**
+   * Signal that a dashboard reply is likely soon (agent turn finished,
+   * permission asked, …) so polling speeds back up immediately
+   */
+  notifyActivity(): void {
+    if (this.transport instanceof PollingTransport) {
+      this.transport.wake();
+    } else {
+      this.scheduler.markActivity();
+    }
   }
 
   stop(): void {
-    if (this.interval) {
-      clearInterval(this.interval);
-      this.interval = null;
-      this.pollingInProgress = false;
+    if (this.streamRetryTimer) {
+      clearTimeout(this.streamRetryTimer);
+      this.streamRetryTimer = null;
+    }
+
+    if (this.transport) {
+      this.transport.stop();
+      this.transport = null;
       this.log('info', 'Stopped message poller');
     }
   }
+
+  private useStream(): void {
+    this.useTransport(
+      new StreamingTransport(this.client, this.log, () => {
+        this.log('info', 'Message stream unavailable, falling back to polling');
+        this.useTransport(new PollingTransport(this.client, this.log, this.scheduler));
+
+        // Try upgrading back to the stream later
+        this.streamRetryTimer = setTimeout(() => {
+          this.streamRetryTimer = null;
+          if (this.transport?.name === 'poll') {
+            this.useStream();
+          }
+        }, this.streamRetryMs);
+        this.streamRetryTimer.unref?.();
+      })
+    );
+  }
+
+  private useTransport(transport: InboundTransport): void {
+    this.transport?.stop();
+    this.transport = transport;
+    this.log('debug', `Using ${transport.name} transport for dashboard messages`);
+    transport.start((messages) => this.dispatch(messages));
+  }
+
+  // Serialize delivery so a batch from one transport never interleaves with
+  // a batch from another while switching between them.
+  private dispatch(messages: VicoaMessage[]): Promise<void> {
+    const run = this.dispatchChain.then(async () => {
+      for (const msg of messages) {
+        if (msg.sender_type === 'USER' && msg.decryption_error) {
+          // Never act on a message we couldn't authenticate; say why instead
+          try {
+            await this.client.sendMessage(`Could not decrypt a dashboard message: ${msg.decryption_error}. It was ignored.`);
+          } catch (error) {
+            this.log('warn', `Error reporting undecryptable message: ${error}`);
+          }
+          continue;
+        }
+        if (msg.sender_type === 'USER' && msg.content) {
+          this.log('debug', `Received user message: ${msg.content.substring(0, 100)}...`);
+          try {
+            await this.onMessage(msg.content, msg);
+          } catch (error) {
+            this.log('warn', `Error handling dashboard message: ${error}`);
+          }
+        }
+      }
+    });
+    this.dispatchChain = run;
+    return run;
+  }
 }
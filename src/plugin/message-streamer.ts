@@ -0,0 +1,128 @@
+/**
+ * Live streaming of assistant text to the Vicoa dashboard
+ *
+ * The dashboard message is created as soon as an assistant message has any
+ * content, then updated in place — at most once per throttle window — while
+ * deltas arrive, and finalized with the complete text on completion.
+ *
+ * Throttle is VICOA_STREAM_THROTTLE_MS (default 1500).
+ */
+
+import type { VicoaClient } from './vicoa-client.js';
+import { parsePositiveInt } from './utils.js';
+
+type StreamState = {
+  created: Promise<string | null>;       // resolves with the Vicoa message ID
+  lastSent: string;
+  latest: string;
+  timer: NodeJS.Timeout | null;
+};
+
+export class MessageStreamer {
+  private vicoaClient: VicoaClient;
+  private log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+  private throttleMs: number;
+  private streams = new Map<string, StreamState>();
+
+  constructor(
+    vicoaClient: VicoaClient,
+    log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void,
+    throttleMs: number = parsePositiveInt(process.env.VICOA_STREAM_THROTTLE_MS, 1500)
+  ) {
+    this.vicoaClient = vicoaClient;
+    this.log = log;
+    this.throttleMs = throttleMs;
+  }
+
+  isStreaming(messageId: string): boolean {
+    return this.streams.has(messageId);
+  }
+
+  /**
+   * Push the current assembled content of an in-progress message
+   */
+  update(messageId: string, content: string): void {
+    if (!content) {
+      return;
+    }
+
+    const existing = this.streams.get(messageId);
+    if (!existing) {
+      // Submitted synchronously so the message keeps its place in the
+      // outbound pipeline; wait for the real ID even if it gets queued.
+      const created = this.vicoaClient.sendMessage(content, false, { awaitDelivery: true }).catch((error) => {
+        this.log('warn', `[Vicoa] Failed to start streaming message: ${error}`);
+        return null;
+      });
+      this.streams.set(messageId, { created, lastSent: content, latest: content, timer: null });
+      return;
+    }
+
+    existing.latest = content;
+    if (!existing.timer) {
+      existing.timer = setTimeout(() => {
+        existing.timer = null;
+        void this.flush(existing);
+      }, this.throttleMs);
+    }
+  }
+
+  /**
+   * Send the final content. Messages that were never streamed are sent
+   * whole, exactly as before streaming existed.
+   */
+  finalize(messageId: string, content: string): void {
+    const state = this.streams.get(messageId);
+    this.streams.delete(messageId);
+
+    if (!state) {
+      void this.vicoaClient.sendMessage(content);
+      return;
+    }
+
+    if (state.timer) {
+      clearTimeout(state.timer);
+      state.timer = null;
+    }
+    state.latest = content;
+
+    void (async () => {
+      const vicoaId = await state.created;
+      if (!vicoaId) {
+        // The early create never landed — fall back to a fresh message
+        await this.vicoaClient.sendMessage(content);
+        return;
+      }
+      if (state.lastSent !== content) {
+        await this.vicoaClient.updateMessage(vicoaId, content);
+      }
+    })().catch((error) => {
+      this.log('warn', `[Vicoa] Failed to finalize streamed message: ${error}`);
+    });
+  }
+
+  /**
+   * Forget a message without sending anything more (e.g. it ended empty)
+   */
+  discard(messageId: string): void {
+    const state = this.streams.get(messageId);
+    if (state?.timer) {
+      clearTimeout(state.timer);
+    }
+    this.streams.delete(messageId);
+  }
+
+  private async flush(state: StreamState): Promise<void> {
+    try {
+      const vicoaId = await state.created;
+      const content = state.latest;
+      if (!vicoaId || content === state.lastSent) {
+        return;
+      }
+      state.lastSent = content;
+      await this.vicoaClient.updateMessage(vicoaId, content);
+    } catch (error) {
+      this.log('debug', `[Vicoa] Streaming update failed: ${error}`);
+    }
+  }
+}
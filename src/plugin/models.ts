@@ -0,0 +1,135 @@
+/**
+ * Providers and models OpenCode can use, for switching models remotely
+ *
+ * Models are referred to as "provider/model" (e.g. "anthropic/claude-sonnet-4"),
+ * the same form OpenCode's config and `--model` flag use. Model IDs may
+ * themselves contain slashes (OpenRouter's do), so only the first slash
+ * separates the provider.
+ */
+
+import type { PromptModel } from './prompt-submission.js';
+import type { VicoaClient } from './vicoa-client.js';
+
+export type ProviderModels = {
+  id: string;
+  name: string;
+  models: Array<{ id: string; name: string }>;
+};
+
+const MAX_MODELS_LISTED = 15;
+
+export function formatModelRef(model: PromptModel): string {
+  return `${model.providerID}/${model.modelID}`;
+}
+
+/**
+ * Parse "provider/model" or `{ providerID, modelID }`
+ */
+export function parseModelRef(value: unknown): PromptModel | null {
+  if (value && typeof value === 'object') {
+    const { providerID, modelID } = value as Partial<PromptModel>;
+    return typeof providerID === 'string' && typeof modelID === 'string' && providerID && modelID
+      ? { providerID, modelID }
+      : null;
+  }
+
+  const text = typeof value === 'string' ? value.trim() : '';
+  const slash = text.indexOf('/');
+  if (slash <= 0 || slash === text.length - 1) {
+    return null;
+  }
+  return { providerID: text.slice(0, slash), modelID: text.slice(slash + 1) };
+}
+
+/**
+ * Providers OpenCode has credentials for, with their models
+ */
+export async function listProviderModels(client: any): Promise<{ providers: ProviderModels[]; defaults: Record<string, string> }> {
+  const { data, error } = await client.config.providers();
+  if (!data) {
+    throw new Error(`Failed to list providers: ${JSON.stringify(error)}`);
+  }
+
+  const providers = (data.providers as Array<{ id: string; name: string; models: Record<string, { id: string; name: string }> }>)
+    .map((provider) => ({
+      id: provider.id,
+      name: provider.name,
+      models: Object.values(provider.models ?? {}).map((model) => ({ id: model.id, name: model.name })),
+    }));
+  return { providers, defaults: data.default ?? {} };
+}
+
+/**
+ * Match a requested model against what's available, ignoring case; returns
+ * it with OpenCode's own casing
+ */
+export function findModel(providers: ProviderModels[], requested: PromptModel): PromptModel | null {
+  const provider = providers.find((p) => p.id.toLowerCase() === requested.providerID.toLowerCase());
+  const model = provider?.models.find((m) => m.id.toLowerCase() === requested.modelID.toLowerCase());
+  return provider && model ? { providerID: provider.id, modelID: model.id } : null;
+}
+
+/**
+ * The model new prompts use when none was picked: the configured `model`,
+ * else the first provider's default
+ */
+export async function getDefaultModel(client: any): Promise<PromptModel | null> {
+  try {
+    const { data: config } = await client.config.get();
+    const configured = parseModelRef(config?.model);
+    if (configured) {
+      return configured;
+    }
+  } catch {
+    // fall through to provider defaults
+  }
+
+  const { providers, defaults } = await listProviderModels(client);
+  for (const provider of providers) {
+    const modelID = defaults[provider.id];
+    if (modelID) {
+      return { providerID: provider.id, modelID };
+    }
+  }
+  return null;
+}
+
+/**
+ * Available models for the dashboard, current one marked
+ */
+export function formatModelList(providers: ProviderModels[], current: PromptModel | null | undefined): string {
+  if (providers.length === 0) {
+    return 'No providers are configured in OpenCode.';
+  }
+
+  const currentRef = current ? formatModelRef(current) : null;
+  const lines = [`**Models**${currentRef ? ` (current: \`${currentRef}\`)` : ''}`];
+  for (const provider of providers) {
+    lines.push('', `**${provider.name}**`);
+    for (const model of provider.models.slice(0, MAX_MODELS_LISTED)) {
+      const ref = `${provider.id}/${model.id}`;
+      lines.push(`• \`${ref}\`${ref === currentRef ? ' ✓' : ''}`);
+    }
+    const hidden = provider.models.length - MAX_MODELS_LISTED;
+    if (hidden > 0) {
+      lines.push(`… ${hidden} more`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Tell the dashboard which model is in use, with a control payload it can
+ * apply to its model picker
+ */
+export async function sendModelToUi(
+  vicoaClient: VicoaClient,
+  logClient: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void,
+  model: PromptModel,
+  reason: 'current' | 'changed',
+): Promise<void> {
+  const ref = formatModelRef(model);
+  const controlPayload = JSON.stringify({ type: 'control', setting: 'model', value: ref });
+  await vicoaClient.sendMessage(`${reason === 'changed' ? 'Model changed to' : 'Using model'} ${ref}. ${controlPayload}`);
+  logClient('info', `[Vicoa] Sent ${reason} model to UI: ${ref}`);
+}
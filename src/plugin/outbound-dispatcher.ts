@@ -0,0 +1,144 @@
+/**
+ * Single ordered pipeline for every Vicoa write
+ *
+ * Event handlers fire concurrently, so awaiting VicoaClient calls from each
+ * of them lets a tool line overtake the assistant text that preceded it.
+ * Every write (messages, status updates, renames, request-input) is
+ * submitted here instead: it gets a sequence number and an idempotency key
+ * at submit time — i.e. in causal event order — and writes are delivered
+ * strictly one after another. While the outbox holds anything, new writes
+ * queue behind it so ordering survives outages too.
+ */
+
+import { randomUUID } from 'crypto';
+import { Outbox, type DeliveryOutcome, type OutboxEntry, type OutboxEntryInit } from './outbox.js';
+
+type WriteResult = Record<string, unknown> | null;
+
+export interface SubmitOptions {
+  // Keep the promise pending while the write sits in the outbox and resolve
+  // it once it is finally delivered (or given up on), instead of resolving
+  // null as soon as it is queued. Only lives in memory.
+  awaitDelivery?: boolean;
+}
+
+export class OutboundDispatcher {
+  private outbox: Outbox;
+  private deliver: (entry: OutboxEntry) => Promise<DeliveryOutcome>;
+  private log: (level: string, msg: string) => void;
+  private chain: Promise<unknown> = Promise.resolve();
+  private deliveryWaiters = new Map<string, (result: WriteResult) => void>();
+  // Seeded from the clock so sequences keep increasing across restarts that
+  // reuse the same agent instance.
+  private nextSequence: number = Date.now();
+
+  constructor(
+    agentInstanceId: string,
+    deliver: (entry: OutboxEntry) => Promise<DeliveryOutcome>,
+    log: (level: string, msg: string) => void
+  ) {
+    this.deliver = deliver;
+    this.log = log;
+    this.outbox = new Outbox({
+      agentInstanceId,
+      deliver,
+      log,
+      onSettled: (entry, outcome) => {
+        const waiter = this.deliveryWaiters.get(entry.id);
+        if (waiter) {
+          this.deliveryWaiters.delete(entry.id);
+          waiter(outcome.status === 'delivered' ? (outcome.result as WriteResult) : null);
+        }
+      },
+    });
+  }
+
+  /**
+   * Submit a write. Its position in the pipeline is fixed synchronously, so
+   * callers must call this before their first `await` to keep causal order.
+   * Resolves with the parsed response, or null if the write was queued for
+   * retry or dropped.
+   */
+  submit(init: OutboxEntryInit, options: SubmitOptions = {}): Promise<WriteResult> {
+    const entry: OutboxEntry = {
+      ...init,
+      id: randomUUID(),
+      sequence: this.nextSequence++,
+      attempts: 0,
+      createdAt: Date.now(),
+    };
+
+    // dispatch() wraps a parked write's eventual result in an object, so the
+    // pipeline only waits for the attempt, never for a later delivery.
+    const run = this.chain.then(() => this.dispatch(entry, options.awaitDelivery ?? false));
+    this.chain = run.catch(() => undefined);
+    return run.then(({ result }) => result);
+  }
+
+  /**
+   * Begin replaying writes persisted by this or a previous run
+   */
+  start(): void {
+    this.outbox.start();
+  }
+
+  stop(): void {
+    this.outbox.stop();
+
+    // Nobody will deliver these in this process any more
+    for (const waiter of this.deliveryWaiters.values()) {
+      waiter(null);
+    }
+    this.deliveryWaiters.clear();
+  }
+
+  /**
+   * Connectivity is back — retry queued writes now
+   */
+  nudge(): void {
+    this.outbox.nudge();
+  }
+
+  /**
+   * Wait for everything submitted so far, then make one pass over the outbox
+   */
+  async flush(): Promise<void> {
+    await this.chain;
+    await this.outbox.flush();
+  }
+
+  private async dispatch(
+    entry: OutboxEntry,
+    awaitDelivery: boolean
+  ): Promise<{ result: Promise<WriteResult> | WriteResult }> {
+    if (this.outbox.hasPending()) {
+      return { result: this.park(entry, awaitDelivery) };
+    }
+
+    const outcome = await this.deliver(entry);
+    if (outcome.status === 'delivered') {
+      return { result: outcome.result as WriteResult };
+    }
+
+    if (outcome.status === 'retry') {
+      this.log('warn', `${outcome.error} (queued for retry)`);
+      entry.attempts += 1;
+      return { result: this.park(entry, awaitDelivery) };
+    }
+
+    this.log('warn', outcome.error);
+    return { result: null };
+  }
+
+  private park(entry: OutboxEntry, awaitDelivery: boolean): Promise<WriteResult> | null {
+    if (!awaitDelivery) {
+      this.outbox.enqueue(entry);
+      return null;
+    }
+
+    // Register before enqueueing so a fast delivery can't slip past the waiter
+    const delivered = new Promise<WriteResult>((resolve) => this.deliveryWaiters.set(entry.id, resolve));
+    this.outbox.enqueue(entry);
+    return delivered;
+  }
+}
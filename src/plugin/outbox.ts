@@ -0,0 +1,337 @@
+/**
+ * Durable outbox for Vicoa writes
+ *
+ * Outbound calls that fail because of a network drop or a backend hiccup are
+ * parked here instead of being lost. The queue is persisted to
+ * ~/.vicoa/outbox/<agentInstanceId>.json and retried in order with
+ * exponential backoff and jitter. Queues left behind by a previous OpenCode
+ * process (one that is no longer running) are adopted on start, so nothing
+ * sent during an outage disappears across restarts.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parsePositiveInt } from './utils.js';
+
+export type OutboxEntryKind =
+  | 'agent_message'
+  | 'user_message'
+  | 'message_update'
+  | 'status'
+  | 'rename'
+  | 'request_input';
+
+export interface OutboxEntry {
+  id: string;                            // doubles as the idempotency key
+  sequence: number;                      // causal order assigned at submit time
+  kind: OutboxEntryKind;
+  method: 'POST' | 'PUT' | 'PATCH';
+  path: string;                          // API path relative to the base URL
+  body: Record<string, unknown>;
+  attempts: number;
+  createdAt: number;
+}
+
+export type OutboxEntryInit = Pick<OutboxEntry, 'kind' | 'method' | 'path' | 'body'>;
+
+/**
+ * Outcome of a single delivery attempt.
+ * - delivered: the backend accepted the call
+ * - retry: transient failure (network error, timeout, 5xx, 429) — keep it
+ * - dropped: permanent failure (other 4xx) — retrying would never help
+ */
+export type DeliveryOutcome =
+  | { status: 'delivered'; result: unknown }
+  | { status: 'retry'; error: string }
+  | { status: 'dropped'; error: string };
+
+export interface OutboxOptions {
+  agentInstanceId: string;
+  deliver: (entry: OutboxEntry) => Promise<DeliveryOutcome>;
+  log: (level: string, msg: string) => void;
+  onSettled?: (entry: OutboxEntry, outcome: DeliveryOutcome) => void;   // delivered or given up on
+  directory?: string;
+}
+
+type OutboxFile = {
+  pid: number;
+  agentInstanceId: string;
+  entries: OutboxEntry[];
+};
+
+/**
+ * Get the directory holding persisted outbox queues
+ */
+export function getOutboxDirectory(): string {
+  return path.join(os.homedir(), '.vicoa', 'outbox');
+}
+
+function isProcessAlive(pid: number): boolean {
+  if (pid === process.pid) {
+    return true;
+  }
+  if (!pid) {
+    return false;
+  }
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function readOutboxFile(filePath: string): OutboxFile | null {
+  try {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as OutboxFile;
+    if (!data || !Array.isArray(data.entries)) {
+      return null;
+    }
+    return data;
+  } catch {
+    return null;
+  }
+}
+
+export class Outbox {
+  private entries: OutboxEntry[] = [];
+  private deliver: (entry: OutboxEntry) => Promise<DeliveryOutcome>;
+  private log: (level: string, msg: string) => void;
+  private onSettled?: (entry: OutboxEntry, outcome: DeliveryOutcome) => void;
+  private filePath: string;
+  private directory: string;
+  private agentInstanceId: string;
+  private timer: NodeJS.Timeout | null = null;
+  private draining: boolean = false;
+  private started: boolean = false;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private maxEntries: number;
+  private maxAgeMs: number;
+
+  constructor(options: OutboxOptions) {
+    this.agentInstanceId = options.agentInstanceId;
+    this.deliver = options.deliver;
+    this.log = options.log;
+    this.onSettled = options.onSettled;
+    this.directory = options.directory ?? getOutboxDirectory();
+    this.filePath = path.join(this.directory, `${this.agentInstanceId}.json`);
+    this.baseDelayMs = parsePositiveInt(process.env.VICOA_OUTBOX_BASE_DELAY_MS, 1000);
+    this.maxDelayMs = parsePositiveInt(process.env.VICOA_OUTBOX_MAX_DELAY_MS, 60000);
+    this.maxEntries = parsePositiveInt(process.env.VICOA_OUTBOX_MAX_ENTRIES, 1000);
+    this.maxAgeMs = parsePositiveInt(process.env.VICOA_OUTBOX_MAX_AGE_MS, 24 * 60 * 60 * 1000);
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  hasPending(): boolean {
+    return this.entries.length > 0;
+  }
+
+  /**
+   * Load this instance's persisted queue, adopt queues left by dead
+   * processes, and begin replaying them.
+   */
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    const own = readOutboxFile(this.filePath);
+    const restored = own ? own.entries : [];
+    restored.push(...this.adoptOrphans());
+
+    if (restored.length > 0) {
+      // Keep anything enqueued before start() behind the restored backlog
+      restored.sort((a, b) => a.createdAt - b.createdAt || (a.sequence ?? 0) - (b.sequence ?? 0));
+      this.entries = [...restored, ...this.entries];
+      this.log('info', `Restored ${restored.length} queued outbound call(s) from disk`);
+      this.persist();
+    }
+
+    if (this.entries.length > 0) {
+      this.schedule(0);
+    }
+  }
+
+  /**
+   * Stop retrying. Queued entries stay on disk for the next run.
+   */
+  stop(): void {
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Append a call to the queue. It is replayed after everything already
+   * queued so ordering is preserved, and keeps its id so a retry of a call
+   * that did reach the backend is recognised as a duplicate.
+   */
+  enqueue(entry: OutboxEntry): void {
+    this.entries.push(entry);
+
+    let dropped: OutboxEntry[] = [];
+    if (this.entries.length > this.maxEntries) {
+      // The head entry is mid-delivery while draining; flush() removes it itself
+      const first = this.draining ? 1 : 0;
+      dropped = this.entries.splice(first, this.entries.length - this.maxEntries);
+      this.log('warn', `Outbox full, dropped ${dropped.length} oldest queued call(s)`);
+    }
+
+    this.persist();
+    // Settled after persisting, so anyone waiting on them sees the queue as it now is
+    for (const entry of dropped) {
+      this.onSettled?.(entry, { status: 'dropped', error: 'Outbox full' });
+    }
+    if (this.started && !this.timer && !this.draining) {
+      this.schedule(this.backoffDelay(0));
+    }
+  }
+
+  /**
+   * Connectivity looks healthy again — retry immediately instead of waiting
+   * out the current backoff.
+   */
+  nudge(): void {
+    if (!this.started || this.draining || this.entries.length === 0) {
+      return;
+    }
+    this.schedule(0);
+  }
+
+  /**
+   * Make one in-order pass over the queue, stopping at the first transient
+   * failure. Resolves once the pass is done.
+   */
+  async flush(): Promise<void> {
+    if (this.draining) {
+      return;
+    }
+    this.draining = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    try {
+      while (this.entries.length > 0) {
+        const entry = this.entries[0];
+
+        if (Date.now() - entry.createdAt > this.maxAgeMs) {
+          this.entries.shift();
+          const error = `Dropped expired ${entry.kind} call after ${entry.attempts} attempt(s)`;
+          this.log('warn', error);
+          this.persist();
+          this.onSettled?.(entry, { status: 'dropped', error });
+          continue;
+        }
+
+        const outcome = await this.deliver(entry);
+        if (outcome.status === 'retry') {
+          entry.attempts += 1;
+          this.persist();
+          const delay = this.backoffDelay(entry.attempts);
+          this.log('debug', `Outbox retry ${entry.attempts} for ${entry.kind} in ${delay}ms: ${outcome.error}`);
+          if (this.started) {
+            this.schedule(delay);
+          }
+          return;
+        }
+
+        this.entries.shift();
+        if (outcome.status === 'dropped') {
+          this.log('warn', `Dropped queued ${entry.kind} call: ${outcome.error}`);
+        }
+        this.persist();
+        this.onSettled?.(entry, outcome);
+      }
+    } finally {
+      this.draining = false;
+    }
+
+    this.log('debug', 'Outbox drained');
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, delayMs);
+    // Never keep OpenCode alive just to retry
+    this.timer.unref?.();
+  }
+
+  // Exponential backoff with jitter: a random delay in [50%, 100%] of the
+  // capped exponential step, so many terminals don't retry in lockstep.
+  private backoffDelay(attempts: number): number {
+    const exponential = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempts);
+    return Math.round(exponential * (0.5 + Math.random() * 0.5));
+  }
+
+  private adoptOrphans(): OutboxEntry[] {
+    const adopted: OutboxEntry[] = [];
+    let files: string[];
+    try {
+      files = fs.readdirSync(this.directory);
+    } catch {
+      return adopted;
+    }
+
+    for (const file of files) {
+      const filePath = path.join(this.directory, file);
+      if (!file.endsWith('.json') || filePath === this.filePath) {
+        continue;
+      }
+
+      const data = readOutboxFile(filePath);
+      if (!data || isProcessAlive(data.pid)) {
+        continue;
+      }
+
+      adopted.push(...data.entries);
+      try {
+        fs.unlinkSync(filePath);
+      } catch {
+        // Another process adopted it first
+      }
+      this.log('info', `Adopted ${data.entries.length} queued call(s) from ${data.agentInstanceId}`);
+    }
+
+    return adopted;
+  }
+
+  private persist(): void {
+    try {
+      if (this.entries.length === 0) {
+        if (fs.existsSync(this.filePath)) {
+          fs.unlinkSync(this.filePath);
+        }
+        return;
+      }
+
+      fs.mkdirSync(this.directory, { recursive: true });
+      const data: OutboxFile = {
+        pid: process.pid,
+        agentInstanceId: this.agentInstanceId,
+        entries: this.entries,
+      };
+      // Write-then-rename so a crash never leaves a truncated queue behind
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(data), 'utf-8');
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      this.log('warn', `Failed to persist outbox: ${error}`);
+    }
+  }
+}
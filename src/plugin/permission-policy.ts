@@ -0,0 +1,227 @@
+/**
+ * Declarative auto-approval policy for forwarded permissions
+ *
+ * Rules come from the plugin config files (see config.ts) and are checked
+ * in order before a permission request is forwarded to the dashboard; the
+ * first matching rule decides. Example:
+ *
+ *   { "permissions": { "rules": [
+ *     { "name": "git read-only", "type": "bash", "patterns": ["git status*", "git diff*"], "action": "allow" },
+ *     { "type": "edit", "patterns": ["src/*"], "action": "allow" },
+ *     { "type": "webfetch", "domains": ["*.github.com"], "action": "allow" },
+ *     { "type": "bash", "patterns": ["rm -rf *"], "action": "reject" }
+ *   ] } }
+ *
+ * `*` matches any run of characters (including `/`), `?` a single one —
+ * the same wildcard semantics as OpenCode's own permission config. An
+ * `allow` rule with `patterns` or `domains` only matches when every target
+ * of the request (command, path or URL) is covered; `reject` and `ask`
+ * rules match when any target is. Bash commands are split at shell
+ * separators (`;`, `&&`, `||`, `|`, `&`, newlines, subshells and command
+ * substitution) and each part is a target of its own, so `git status*`
+ * does not allow `git status && curl … | sh`. A bash command that
+ * redirects input or output (`>`, `>>`, `<`) or substitutes a command
+ * (`$(…)`, backticks) never matches an `allow` rule with `patterns`, so
+ * `git status > ~/.bashrc` is asked. Requests no rule matches are asked.
+ */
+
+import * as path from 'path';
+import type { Permission } from '@opencode-ai/sdk';
+import { getPermissionPatterns, getPermissionType } from './permission.js';
+
+export type PolicyAction = 'allow' | 'reject' | 'ask';
+
+export interface PermissionRule {
+  name?: string;
+  // Permission type(s) the rule applies to ("bash", "edit", "webfetch", ...); omitted or "*" = any
+  type?: string | string[];
+  // Globs over the request's targets: bash commands, file paths, URLs
+  patterns?: string[];
+  // Globs over URL hostnames (webfetch)
+  domains?: string[];
+  action: PolicyAction;
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  rule: string;
+}
+
+const ACTIONS = new Set<PolicyAction>(['allow', 'reject', 'ask']);
+
+// Where one shell command ends and another begins. `&` in redirections
+// such as `2>&1` or `&>file` is not a separator.
+const SHELL_SEPARATOR = /&&|\|\||\|&?|;|\n|`|\$\(|[<>]\(|[()]|(?<![<>])&(?!>)/;
+
+/**
+ * The individual commands in a shell command line. Quoting is not
+ * understood, so a separator inside quotes also splits; that only makes
+ * a rule match less often.
+ */
+export function splitShellCommand(command: string): string[] {
+  return command
+    .split(SHELL_SEPARATOR)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Whether a command line writes or reads files through redirection, or runs
+ * commands through substitution. Duplicating descriptors (`2>&1`) is neither.
+ */
+export function hasRedirectionOrSubstitution(command: string): boolean {
+  const withoutDuplication = command.replace(/\d*[<>]&(?:\d+|-)/g, ' ');
+  return /[<>]|`|\$\(/.test(withoutDuplication);
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 's');
+}
+
+function matchesAny(value: string, globs: string[]): boolean {
+  return globs.some((glob) => globToRegExp(glob).test(value));
+}
+
+export class PermissionPolicy {
+  private rules: PermissionRule[];
+  private projectDir: string;
+
+  constructor(
+    rules: PermissionRule[],
+    projectDir: string,
+    log?: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void
+  ) {
+    this.projectDir = projectDir;
+    this.rules = rules.filter((rule) => {
+      if (ACTIONS.has(rule.action)) {
+        return true;
+      }
+      log?.('warn', `[Vicoa] Ignoring permission rule "${rule.name}": unknown action "${rule.action}"`);
+      return false;
+    });
+  }
+
+  get size(): number {
+    return this.rules.length;
+  }
+
+  /**
+   * Decide a permission request. Returns null when no rule matches.
+   */
+  evaluate(permission: Permission): PolicyDecision | null {
+    const type = getPermissionType(permission);
+    const targets = this.getTargets(permission, type);
+    const redirects = type === 'bash' && this.getCommandLines(permission, type).some(hasRedirectionOrSubstitution);
+
+    for (const rule of this.rules) {
+      // Patterns describe commands, not where their output goes
+      if (redirects && rule.action === 'allow' && rule.patterns?.length) {
+        continue;
+      }
+      if (this.matches(rule, type, targets)) {
+        return { action: rule.action, rule: rule.name ?? 'unnamed rule' };
+      }
+    }
+    return null;
+  }
+
+  private matches(rule: PermissionRule, type: string, targets: string[]): boolean {
+    const types = rule.type === undefined ? ['*'] : Array.isArray(rule.type) ? rule.type : [rule.type];
+    if (!matchesAny(type, types)) {
+      return false;
+    }
+
+    // Allowing needs every target covered; refusing or asking, just one
+    const covers = (predicate: (target: string) => boolean) =>
+      rule.action === 'allow' ? targets.every(predicate) : targets.some(predicate);
+
+    if (rule.patterns?.length) {
+      if (targets.length === 0) return false;
+      const covered = covers((target) =>
+        this.targetForms(target).some((form) => matchesAny(form, rule.patterns!))
+      );
+      if (!covered) return false;
+    }
+
+    if (rule.domains?.length) {
+      if (targets.length === 0) return false;
+      const covered = covers((target) => {
+        const host = this.hostnameOf(target);
+        return host !== null && matchesAny(host, rule.domains!);
+      });
+      if (!covered) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * What the request is about: its patterns, or failing that the command,
+   * path or URL from its metadata, with bash command lines split into
+   * their commands
+   */
+  private getTargets(permission: Permission, type: string): string[] {
+    const targets = this.getRawTargets(permission, type);
+    return type === 'bash' ? targets.flatMap(splitShellCommand) : targets;
+  }
+
+  // Everything known about the command line, since OpenCode's patterns may
+  // leave out redirections the full command has
+  private getCommandLines(permission: Permission, type: string): string[] {
+    const meta = (permission.metadata ?? {}) as Record<string, unknown>;
+    const input = (meta.input && typeof meta.input === 'object' ? meta.input : {}) as Record<string, unknown>;
+    const commands = [meta.command, input.command].filter((value): value is string => typeof value === 'string');
+    return [...this.getRawTargets(permission, type), ...commands];
+  }
+
+  private getRawTargets(permission: Permission, type: string): string[] {
+    const patterns = getPermissionPatterns(permission);
+    if (patterns.length > 0) {
+      return patterns;
+    }
+
+    const meta = (permission.metadata ?? {}) as Record<string, unknown>;
+    const input = (meta.input && typeof meta.input === 'object' ? meta.input : {}) as Record<string, unknown>;
+    const keys = type === 'bash'
+      ? ['command']
+      : type === 'webfetch'
+        ? ['url']
+        : ['filePath', 'filepath', 'file_path', 'path'];
+
+    for (const source of [meta, input]) {
+      for (const key of keys) {
+        if (typeof source[key] === 'string' && source[key]) {
+          return [source[key] as string];
+        }
+      }
+    }
+    return [];
+  }
+
+  // Absolute paths inside the project may also be matched project-relative
+  private targetForms(target: string): string[] {
+    if (path.isAbsolute(target)) {
+      const relative = path.relative(this.projectDir, target);
+      if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+        return [target, relative];
+      }
+    }
+    return [target];
+  }
+
+  private hostnameOf(target: string): string | null {
+    try {
+      return new URL(target).hostname;
+    } catch {
+      return null;
+    }
+  }
+}
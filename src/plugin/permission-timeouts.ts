@@ -0,0 +1,127 @@
+/**
+ * Deadlines for permission requests waiting on the dashboard
+ *
+ * Without a deadline a forwarded permission waits forever, so an unattended
+ * run stalls until someone looks at their phone. Timeout rules from the
+ * plugin config (see config.ts) give each permission type a deadline, an
+ * action taken when it passes, and optionally a reminder shortly before:
+ *
+ *   { "permissions": { "timeouts": [
+ *     { "type": ["read", "list", "glob", "grep"], "after": 300, "action": "allow" },
+ *     { "type": "*", "after": 3600, "action": "reject", "remindBefore": 600 }
+ *   ] } }
+ *
+ * Times are in seconds; the first rule whose type matches applies, and a
+ * rule without an action rejects. Timeouts are opt-in: with no rules, or
+ * for requests no rule matches, a permission waits indefinitely, as before.
+ */
+
+export type TimeoutAction = 'allow' | 'reject';
+
+export interface PermissionTimeoutRule {
+  // Permission type(s) the rule applies to; omitted or "*" = any
+  type?: string | string[];
+  after: number;
+  // Default "reject"
+  action?: TimeoutAction;
+  remindBefore?: number;
+}
+
+export type AppliedTimeoutRule = PermissionTimeoutRule & { action: TimeoutAction };
+
+export interface TimeoutHandlers {
+  onReminder: (rule: AppliedTimeoutRule, remainingMs: number) => void;
+  onTimeout: (rule: AppliedTimeoutRule) => void;
+}
+
+type Deadline = {
+  reminder: NodeJS.Timeout | null;
+  timeout: NodeJS.Timeout;
+};
+
+const ACTIONS = new Set<TimeoutAction>(['allow', 'reject']);
+const DEFAULT_ACTION: TimeoutAction = 'reject';
+
+export class PermissionTimeouts {
+  private rules: AppliedTimeoutRule[];
+  private deadlines = new Map<string, Deadline>();
+
+  constructor(
+    rules: PermissionTimeoutRule[],
+    log?: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void
+  ) {
+    this.rules = rules
+      .map((rule) => ({ ...rule, action: rule.action ?? DEFAULT_ACTION }))
+      .filter((rule) => {
+        if (ACTIONS.has(rule.action) && typeof rule.after === 'number' && rule.after > 0) {
+          return true;
+        }
+        log?.('warn', `[Vicoa] Ignoring permission timeout ${JSON.stringify(rule)}: needs "after" > 0 and action allow|reject`);
+        return false;
+      });
+  }
+
+  /**
+   * The timeout rule for a permission type, if any
+   */
+  ruleFor(permissionType: string): AppliedTimeoutRule | null {
+    for (const rule of this.rules) {
+      const types = rule.type === undefined ? ['*'] : Array.isArray(rule.type) ? rule.type : [rule.type];
+      if (types.includes('*') || types.includes(permissionType)) {
+        return rule;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Start the clock for a forwarded permission. Returns the rule applied, or
+   * null if this type waits indefinitely.
+   */
+  schedule(permissionId: string, permissionType: string, handlers: TimeoutHandlers): AppliedTimeoutRule | null {
+    const rule = this.ruleFor(permissionType);
+    if (!rule) {
+      return null;
+    }
+
+    this.cancel(permissionId);
+    const afterMs = rule.after * 1000;
+    const remindMs = (rule.remindBefore ?? 0) * 1000;
+
+    let reminder: NodeJS.Timeout | null = null;
+    if (remindMs > 0 && remindMs < afterMs) {
+      reminder = setTimeout(() => handlers.onReminder(rule, remindMs), afterMs - remindMs);
+      reminder.unref?.();
+    }
+
+    const timeout = setTimeout(() => {
+      this.deadlines.delete(permissionId);
+      handlers.onTimeout(rule);
+    }, afterMs);
+    timeout.unref?.();
+
+    this.deadlines.set(permissionId, { reminder, timeout });
+    return rule;
+  }
+
+  /**
+   * The permission was answered; stop its clock
+   */
+  cancel(permissionId: string): void {
+    const deadline = this.deadlines.get(permissionId);
+    if (!deadline) {
+      return;
+    }
+    if (deadline.reminder) {
+      clearTimeout(deadline.reminder);
+    }
+    clearTimeout(deadline.timeout);
+    this.deadlines.delete(permissionId);
+  }
+
+  dispose(): void {
+    for (const permissionId of [...this.deadlines.keys()]) {
+      this.cancel(permissionId);
+    }
+  }
+}
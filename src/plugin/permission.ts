@@ -1,9 +1,33 @@
 import type { Permission } from '@opencode-ai/sdk';
+import { formatDiffBlock } from './diff.js';
+import { formatElapsed } from './format-utils.js';
 
 /**
  * Permission option for user selection
  */
-export type PermissionOption = { label: string; response: 'once' | 'always' | 'reject' };
+export type PermissionOption = {
+  label: string;
+  response: 'once' | 'always' | 'reject';
+  // Rejects and asks the user what the agent should do instead
+  feedback?: boolean;
+};
+
+/**
+ * A recognised reply to a permission request. `feedback` is free text given
+ * with the option (`3: use pnpm instead`); `wantsFeedback` means the user
+ * picked the instructions option and the text is still to come.
+ */
+export type ParsedPermissionReply = {
+  response: 'once' | 'always' | 'reject';
+  feedback?: string;
+  wantsFeedback?: boolean;
+};
+
+const REJECT_WITH_INSTRUCTIONS: PermissionOption = {
+  label: 'Reject with instructions',
+  response: 'reject',
+  feedback: true,
+};
 
 /**
  * Default options shown when the permission metadata doesn't supply its own.
@@ -13,6 +37,7 @@ export const DEFAULT_PERMISSION_OPTIONS: PermissionOption[] = [
   { label: 'Allow', response: 'once' },
   { label: 'Allow always', response: 'always' },
   { label: 'Reject', response: 'reject' },
+  REJECT_WITH_INSTRUCTIONS,
 ];
 
 /**
@@ -27,33 +52,134 @@ export function buildPermissionOptions(permission: Permission): PermissionOption
   // If metadata supplies an options array, use those labels but keep standard responses
   if (Array.isArray(metaOptions) && metaOptions.length > 0) {
     const responses: Array<'once' | 'always' | 'reject'> = ['once', 'always', 'reject'];
-    return metaOptions.slice(0, 3).map((label, i) => ({
+    const options: PermissionOption[] = metaOptions.slice(0, 3).map((label, i) => ({
       label: String(label),
       response: responses[i] ?? 'reject',
     }));
+    return [...options, REJECT_WITH_INSTRUCTIONS];
   }
 
   return DEFAULT_PERMISSION_OPTIONS;
 }
 
+/**
+ * Permission type, handling both V1 (type) and V2 (permission) SDK structures
+ */
+export function getPermissionType(permission: Permission): string {
+  return (permission as any).permission || permission.type || 'unknown';
+}
+
+/**
+ * Patterns from either V1 (pattern) or V2 (patterns) format
+ */
+export function getPermissionPatterns(permission: Permission): string[] {
+  if ((permission as any).patterns) {
+    return (permission as any).patterns;
+  }
+  if (permission.pattern) {
+    return Array.isArray(permission.pattern) ? permission.pattern : [permission.pattern];
+  }
+  return [];
+}
+
+/**
+ * Before and after text of an edit request, from either snake_case or
+ * camelCase tool input
+ */
+export function getEditStrings(permission: Permission): { oldString: string; newString: string } | null {
+  const meta = permission.metadata as Record<string, unknown> | undefined;
+  const input = (meta?.input && typeof meta.input === 'object' ? meta.input : {}) as Record<string, unknown>;
+  const oldString = input.old_string ?? input.oldString;
+  const newString = input.new_string ?? input.newString;
+  return typeof oldString === 'string' && typeof newString === 'string' ? { oldString, newString } : null;
+}
+
+/**
+ * Short reference for a permission request (e.g. `P-3F9A2C`), embedded in
+ * the dashboard message so a reply can name the request it answers
+ */
+export function getPermissionToken(permission: Permission): string {
+  const tail = permission.id.replace(/[^A-Za-z0-9]/g, '').slice(-6);
+  return `P-${tail.toUpperCase()}`;
+}
+
 /**
  * Format a permission request for display in Vicoa UI.
  * Shows the permission type, patterns, and code diff/preview if available.
  */
 export function formatPermissionRequest(permission: Permission, options: PermissionOption[]): string {
-  // Handle both V1 (type/pattern) and V2 (permission/patterns) SDK structures
-  const permissionType = (permission as any).permission || permission.type || 'unknown';
+  let message = `**Permission Required**\n\n${formatPermissionDetails(permission)}`;
 
-  // Extract patterns from either V1 (pattern) or V2 (patterns) format
-  let patterns: string[] = [];
-  if ((permission as any).patterns) {
-    patterns = (permission as any).patterns;
-  } else if (permission.pattern) {
-    patterns = Array.isArray(permission.pattern) ? permission.pattern : [permission.pattern];
-  }
+  // Reference the user can quote when several requests are pending
+  message += `\n\nRef: \`${getPermissionToken(permission)}\``;
+
+  // Format options in the same [OPTIONS] envelope the Python wrapper uses,
+  // so the Vicoa UI renders them as actionable buttons/choices.
+  const optionLines = options.map((opt, i) => `${i + 1}. ${opt.label}`);
+  message += `\n\n[OPTIONS]\n${optionLines.join('\n')}\n[/OPTIONS]`;
+
+  return message;
+}
+
+/**
+ * How a permission request ended up being answered
+ */
+export type PermissionResolution = {
+  response: 'once' | 'always' | 'reject';
+  via: 'dashboard' | 'terminal' | 'timeout';
+  feedback?: string;
+};
+
+const RESOLUTION_SOURCES: Record<PermissionResolution['via'], string> = {
+  dashboard: 'answered on the dashboard',
+  terminal: 'answered in the terminal',
+  timeout: 'decided automatically after no response',
+};
+
+/**
+ * The label the user saw for a response, falling back to the defaults
+ */
+export function getResponseLabel(response: PermissionResolution['response'], options: PermissionOption[]): string {
+  const option = options.find((opt) => opt.response === response)
+    ?? DEFAULT_PERMISSION_OPTIONS.find((opt) => opt.response === response);
+  return option?.label ?? response;
+}
+
+/**
+ * Replacement content for a forwarded permission request once it has been
+ * answered: the same details, without the option buttons, plus the outcome
+ */
+export function formatResolvedPermission(
+  permission: Permission,
+  options: PermissionOption[],
+  resolution: PermissionResolution
+): string {
+  const label = getResponseLabel(resolution.response, options);
+  return `**Permission Resolved**\n\n${formatPermissionDetails(permission)}` +
+    `\n\nRef: \`${getPermissionToken(permission)}\`` +
+    `\n\n**${label}** — ${RESOLUTION_SOURCES[resolution.via]}` +
+    (resolution.feedback ? `\nInstructions: ${resolution.feedback}` : '');
+}
+
+/**
+ * Tell the user a reply arrived for a request that was already answered
+ */
+export function formatLateReplyNotice(
+  permission: Permission,
+  options: PermissionOption[],
+  resolution: PermissionResolution
+): string {
+  const label = getResponseLabel(resolution.response, options);
+  return `${formatPermissionSubject(permission)} was already answered (**${label}**, ${RESOLUTION_SOURCES[resolution.via]}), so your reply was ignored.`;
+}
+
+// Type, patterns and any code diff/preview from the metadata
+function formatPermissionDetails(permission: Permission): string {
+  const permissionType = getPermissionType(permission);
+  const patterns = getPermissionPatterns(permission);
 
   // Format as: **Type** (`pattern`) - consistent with tool use format
-  let message = '**Permission Required**\n\n';
+  let message = '';
 
   if (patterns.length === 0) {
     message += `**${permissionType}**`;
@@ -71,27 +197,16 @@ export function formatPermissionRequest(permission: Permission, options: Permiss
   if (meta?.input && typeof meta.input === 'object') {
     const input = meta.input as Record<string, unknown>;
 
+    const edit = getEditStrings(permission);
+
     // For Edit tool - show diff
-    if (permissionType === 'edit' && input.old_string && input.new_string) {
-      const oldStr = String(input.old_string);
-      const newStr = String(input.new_string);
-      message += '\n```diff\n';
-
-      // Simple diff: show removed and added lines
-      for (const line of oldStr.split('\n')) {
-        message += `- ${line}\n`;
-      }
-      for (const line of newStr.split('\n')) {
-        message += `+ ${line}\n`;
-      }
-      message += '```';
+    if (permissionType === 'edit' && edit) {
+      message += '\n' + formatDiffBlock(edit.oldString, edit.newString).join('\n');
     }
 
-    // For Write tool - show content preview
+    // For Write tool - show the new content as an all-added diff
     else if (permissionType === 'write' && input.content) {
-      const content = String(input.content);
-      const preview = content.length > 500 ? content.slice(0, 500) + '...' : content;
-      message += '\n```\n' + preview + '\n```';
+      message += '\n' + formatDiffBlock('', String(input.content)).join('\n');
     }
 
     // For Bash tool - show command
@@ -105,48 +220,227 @@ export function formatPermissionRequest(permission: Permission, options: Permiss
     message += `\n\n${meta.description}`;
   }
 
-  // Format options in the same [OPTIONS] envelope the Python wrapper uses,
-  // so the Vicoa UI renders them as actionable buttons/choices.
-  const optionLines = options.map((opt, i) => `${i + 1}. ${opt.label}`);
-  message += `\n\n[OPTIONS]\n${optionLines.join('\n')}\n[/OPTIONS]`;
-
   return message;
 }
 
 /**
  * Given a user reply string (from the Vicoa poller) and the options that were
  * sent for that permission, return the matching OpenCode permission response
- * value, or null if it doesn't match.
+ * (plus any instructions given with a rejection), or null if it doesn't match.
  */
 export function parsePermissionReply(
   userReply: string,
   options: PermissionOption[]
-): 'once' | 'always' | 'reject' | null {
+): ParsedPermissionReply | null {
+  // Option followed by free text, e.g. "3: use pnpm instead"
+  const withText = /^([^:\n]+?)\s*:\s*(\S[\s\S]*)$/.exec(userReply.trim());
+  if (withText) {
+    const option = matchPermissionOption(withText[1], options);
+    if (option) {
+      // Text after an approval isn't an instruction for the agent
+      return option.response === 'reject'
+        ? { response: option.response, feedback: withText[2].trim() }
+        : { response: option.response };
+    }
+  }
+
+  const option = matchPermissionOption(userReply, options);
+  if (!option) {
+    return null;
+  }
+  return option.feedback ? { response: option.response, wantsFeedback: true } : { response: option.response };
+}
+
+function matchPermissionOption(
+  userReply: string,
+  options: PermissionOption[]
+): Pick<PermissionOption, 'response' | 'feedback'> | null {
   const trimmed = userReply.trim().toLowerCase();
 
   // Try direct label match (case-insensitive)
   for (const opt of options) {
     if (opt.label.toLowerCase() === trimmed) {
-      return opt.response;
+      return opt;
     }
   }
 
-  // Try numeric match (1, 2, 3)
-  const num = Number.parseInt(trimmed, 10);
-  if (!Number.isNaN(num) && num >= 1 && num <= options.length) {
-    return options[num - 1].response;
+  // Try numeric match (1, 2, 3). Only a bare number: "2 more things to
+  // fix" is a chat message, not "Allow always".
+  if (/^\d+$/.test(trimmed)) {
+    const num = Number.parseInt(trimmed, 10);
+    if (num >= 1 && num <= options.length) {
+      return options[num - 1];
+    }
   }
 
   // Fallback: look for keywords
   if (/^(allow|yes|y|ok|approve|1)$/i.test(trimmed)) {
-    return 'once';
+    return { response: 'once' };
   }
   if (/^(always|forever|permanent|2)$/i.test(trimmed)) {
-    return 'always';
+    return { response: 'always' };
   }
   if (/^(reject|no|n|deny|cancel|3)$/i.test(trimmed)) {
-    return 'reject';
+    return { response: 'reject' };
   }
 
   return null;
 }
+
+/**
+ * Prompt telling the agent why its request was rejected and what to do
+ */
+export function formatRejectionGuidance(permission: Permission, feedback: string): string {
+  const patterns = getPermissionPatterns(permission);
+  const subject = patterns.length === 1 ? `${getPermissionType(permission)} (${patterns[0]})` : getPermissionType(permission);
+  return `I rejected the ${subject} permission request. Instead: ${feedback}`;
+}
+
+export function formatPermissionSubject(permission: Permission): string {
+  const patterns = getPermissionPatterns(permission);
+  return patterns.length === 1
+    ? `**${getPermissionType(permission)}** (\`${patterns[0]}\`)`
+    : `**${getPermissionType(permission)}**`;
+}
+
+/**
+ * Short dashboard notice for a permission decided by a policy rule
+ */
+export function formatPolicyNotice(permission: Permission, action: 'allow' | 'reject', rule: string): string {
+  const verb = action === 'allow' ? 'Auto-approved' : 'Auto-rejected';
+  return `${verb} by rule "${rule}": ${formatPermissionSubject(permission)}`;
+}
+
+/**
+ * Reminder that a pending permission is about to be decided automatically
+ */
+export function formatTimeoutReminder(permission: Permission, action: 'allow' | 'reject', remainingMs: number): string {
+  const outcome = action === 'allow' ? 'approved' : 'rejected';
+  return `Reminder: ${formatPermissionSubject(permission)} is still waiting and will be auto-${outcome} in ${formatElapsed(remainingMs)} unless you respond.`;
+}
+
+/**
+ * Transcript record of a permission decided because nobody answered in time
+ */
+export function formatTimeoutNotice(permission: Permission, action: 'allow' | 'reject', waitedMs: number): string {
+  const verb = action === 'allow' ? 'Auto-approved' : 'Auto-rejected';
+  return `${verb} after no response for ${formatElapsed(waitedMs)}: ${formatPermissionSubject(permission)}`;
+}
+
+const PERMISSION_TOKEN = /\bP-([A-Za-z0-9]{1,6})\b/i;
+
+type CorrelatablePermission = {
+  permission: Permission;
+  options: PermissionOption[];
+  vicoaMessageId: string | null;
+  resolvedAt?: number;                   // when it was answered (resolved entries only)
+};
+
+// A bare option tap this soon after the last request was answered is taken
+// as a late button press on it; after that it is an ordinary prompt
+const LATE_TAP_WINDOW_MS = 2 * 60 * 1000;
+
+export type PermissionReplyMatch =
+  | ({ kind: 'matched'; permissionId: string } & ParsedPermissionReply)
+  | { kind: 'ambiguous'; permissionIds: string[] }
+  | { kind: 'invalid'; permissionId: string }
+  | { kind: 'resolved'; permissionId: string }
+  | { kind: 'none' };
+
+// The request a reply explicitly points at, by replied-to message or token
+function findReferencedPermission(
+  userReply: string,
+  replyToMessageId: string | null | undefined,
+  entries: Map<string, CorrelatablePermission>
+): { permissionId: string; viaToken: boolean } | null {
+  let byReply: string | undefined;
+  if (replyToMessageId) {
+    for (const [permissionId, entry] of entries) {
+      if (entry.vicoaMessageId === replyToMessageId) {
+        byReply = permissionId;
+        break;
+      }
+    }
+  }
+
+  const token = PERMISSION_TOKEN.exec(userReply);
+  if (token) {
+    const quoted = `P-${token[1]}`.toUpperCase();
+    const byToken = [...entries.entries()].find(([, entry]) => getPermissionToken(entry.permission) === quoted);
+    if (byToken && (!byReply || byReply === byToken[0])) {
+      return { permissionId: byToken[0], viaToken: true };
+    }
+  }
+
+  return byReply ? { permissionId: byReply, viaToken: false } : null;
+}
+
+// A bare option label or number, as sent by tapping one of the buttons
+function isOptionTap(userReply: string, options: PermissionOption[]): boolean {
+  const trimmed = userReply.trim().toLowerCase();
+  const num = /^\d+$/.test(trimmed) ? Number.parseInt(trimmed, 10) : NaN;
+  return options.some((opt) => opt.label.toLowerCase() === trimmed)
+    || (num >= 1 && num <= options.length);
+}
+
+/**
+ * Work out which pending permission a dashboard reply answers. A reply is
+ * tied to one request by the message it replies to or by quoting its
+ * reference token; a bare reply only counts when a single request is
+ * pending. With several pending, a bare option reply is reported as
+ * ambiguous rather than applied to whichever request happens to be first.
+ * Replies meant for a request in `resolved` (answered elsewhere meanwhile)
+ * are reported as such so they never turn into prompts: those that reply to
+ * or reference it, and bare option taps shortly after it was answered.
+ */
+export function correlatePermissionReply(
+  userReply: string,
+  replyToMessageId: string | null | undefined,
+  pending: Map<string, CorrelatablePermission>,
+  resolved: Map<string, CorrelatablePermission> = new Map(),
+  now: number = Date.now()
+): PermissionReplyMatch {
+  const reference = findReferencedPermission(userReply, replyToMessageId, pending);
+
+  if (!reference) {
+    const late = findReferencedPermission(userReply, replyToMessageId, resolved);
+    if (late) {
+      return { kind: 'resolved', permissionId: late.permissionId };
+    }
+  }
+
+  if (pending.size === 0) {
+    // A button from a request that has since been answered elsewhere
+    const latest = [...resolved.entries()].pop();
+    const recent = latest?.[1].resolvedAt !== undefined && now - latest[1].resolvedAt <= LATE_TAP_WINDOW_MS;
+    if (latest && recent && isOptionTap(userReply, latest[1].options)) {
+      return { kind: 'resolved', permissionId: latest[0] };
+    }
+    return { kind: 'none' };
+  }
+
+  const reply = reference?.viaToken ? userReply.replace(PERMISSION_TOKEN, ' ') : userReply;
+  const targetId = reference?.permissionId ?? (pending.size === 1 ? pending.keys().next().value : undefined);
+
+  if (targetId) {
+    const parsed = parsePermissionReply(reply, pending.get(targetId)!.options);
+    if (parsed) {
+      return { kind: 'matched', permissionId: targetId, ...parsed };
+    }
+    // An explicit reference that isn't an option still must not become a prompt
+    return reference ? { kind: 'invalid', permissionId: targetId } : { kind: 'none' };
+  }
+
+  const looksLikeAnswer = [...pending.values()].some((entry) => parsePermissionReply(reply, entry.options) !== null);
+  return looksLikeAnswer ? { kind: 'ambiguous', permissionIds: [...pending.keys()] } : { kind: 'none' };
+}
+
+/**
+ * Ask the user to say which of several pending requests a reply was for
+ */
+export function formatAmbiguousReplyNotice(permissions: Permission[]): string {
+  const lines = permissions.map((permission) => `  • \`${getPermissionToken(permission)}\` — ${formatPermissionSubject(permission)}`);
+  const example = permissions[0] ? ` \`1 ${getPermissionToken(permissions[0])}\`` : '';
+  return `${permissions.length} permission requests are waiting, so that reply could mean any of them. ` +
+    `Reply to the request directly, or include its reference, e.g.${example}:\n${lines.join('\n')}`;
+}
@@ -0,0 +1,137 @@
+/**
+ * Adaptive cadence for the polling transport
+ *
+ * Polls fast right after something happened (an agent turn finished, a
+ * message arrived, a permission is waiting on the user) and backs off
+ * progressively while the session sits idle. Backend throttling (429 /
+ * Retry-After) always wins over the computed cadence, including wake-ups
+ * after activity, until the throttled period has passed.
+ *
+ * Tunable via environment:
+ * - VICOA_POLL_MIN_MS            fastest cadence (default: the poller's interval, 1000)
+ * - VICOA_POLL_BUSY_MS           cadence while the agent is working (default 2000)
+ * - VICOA_POLL_MAX_MS            slowest idle cadence (default 30000)
+ * - VICOA_POLL_FAST_WINDOW_MS    how long to stay fast after activity (default 30000)
+ * - VICOA_POLL_BACKOFF_PERCENT   idle growth per empty poll, in percent (default 150)
+ */
+
+import { parsePositiveInt } from './utils.js';
+
+export type SessionActivityStatus = 'idle' | 'busy' | 'retry' | undefined;
+
+export interface PollScheduleConfig {
+  minIntervalMs: number;
+  busyIntervalMs: number;
+  maxIntervalMs: number;
+  fastWindowMs: number;
+  backoffFactor: number;
+}
+
+export interface PollSignals {
+  getSessionStatus?: () => SessionActivityStatus;
+  hasPendingPermission?: () => boolean;
+}
+
+/**
+ * Backend throttling reported by the last poll
+ */
+export interface PollThrottle {
+  rateLimited: boolean;
+  retryAfterMs: number | null;
+}
+
+export function loadPollScheduleConfig(minIntervalMs: number = 1000): PollScheduleConfig {
+  const min = parsePositiveInt(process.env.VICOA_POLL_MIN_MS, minIntervalMs);
+  const max = Math.max(min, parsePositiveInt(process.env.VICOA_POLL_MAX_MS, 30000));
+  return {
+    minIntervalMs: min,
+    busyIntervalMs: Math.min(max, Math.max(min, parsePositiveInt(process.env.VICOA_POLL_BUSY_MS, 2000))),
+    maxIntervalMs: max,
+    fastWindowMs: parsePositiveInt(process.env.VICOA_POLL_FAST_WINDOW_MS, 30000),
+    backoffFactor: Math.max(100, parsePositiveInt(process.env.VICOA_POLL_BACKOFF_PERCENT, 150)) / 100,
+  };
+}
+
+export class PollScheduler {
+  private config: PollScheduleConfig;
+  private signals: PollSignals;
+  private log: (level: string, msg: string) => void;
+  private lastActivityAt: number = Date.now();
+  private idleDelayMs: number;
+  private currentDelayMs: number;
+  private lastReported: string | null = null;
+  // No poll before this time, whatever the cadence says
+  private throttledUntil: number = 0;
+
+  constructor(config: PollScheduleConfig, signals: PollSignals, log: (level: string, msg: string) => void) {
+    this.config = config;
+    this.signals = signals;
+    this.log = log;
+    this.idleDelayMs = config.minIntervalMs;
+    this.currentDelayMs = config.minIntervalMs;
+  }
+
+  /**
+   * Something happened that makes a dashboard reply likely — poll fast again
+   */
+  markActivity(): void {
+    this.lastActivityAt = Date.now();
+    this.idleDelayMs = this.config.minIntervalMs;
+  }
+
+  /**
+   * Compute how long to wait before the next poll
+   */
+  nextDelay(receivedMessages: boolean, throttle: PollThrottle | null): number {
+    if (receivedMessages) {
+      this.markActivity();
+    }
+
+    const now = Date.now();
+    const status = this.signals.getSessionStatus?.();
+    let delay: number;
+    let reason: string;
+
+    if (this.signals.hasPendingPermission?.()) {
+      delay = this.config.minIntervalMs;
+      reason = 'permission pending';
+    } else if (now - this.lastActivityAt < this.config.fastWindowMs) {
+      delay = this.config.minIntervalMs;
+      reason = 'recent activity';
+    } else if (status === 'busy' || status === 'retry') {
+      delay = this.config.busyIntervalMs;
+      reason = 'agent busy';
+    } else {
+      this.idleDelayMs = Math.min(this.config.maxIntervalMs, Math.round(this.idleDelayMs * this.config.backoffFactor));
+      delay = this.idleDelayMs;
+      reason = `idle for ${Math.round((now - this.lastActivityAt) / 1000)}s`;
+    }
+
+    if (throttle?.retryAfterMs && throttle.retryAfterMs > delay) {
+      delay = throttle.retryAfterMs;
+      reason = 'backend Retry-After';
+      this.throttledUntil = now + delay;
+    } else if (throttle?.rateLimited) {
+      delay = Math.min(this.config.maxIntervalMs, Math.max(delay, this.currentDelayMs * 2));
+      reason = 'rate limited';
+      this.throttledUntil = now + delay;
+    } else if (this.throttledUntil - now > delay) {
+      delay = this.throttledUntil - now;
+      reason = 'still throttled';
+    }
+
+    this.currentDelayMs = delay;
+    this.report(delay, reason);
+    return delay;
+  }
+
+  private report(delay: number, reason: string): void {
+    // Only log when the cadence (or why it was chosen) changes, not every tick
+    const key = `${delay}:${reason.startsWith('idle') ? 'idle' : reason}`;
+    if (key === this.lastReported) {
+      return;
+    }
+    this.lastReported = key;
+    this.log('debug', `Poll cadence: ${delay}ms (${reason})`);
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Dashboard prompts held back while OpenCode is busy
+ *
+ * A prompt sent from the phone while the agent is working waits here
+ * instead of being typed into the TUI mid-turn. Each one gets a short
+ * number (#1, #2, …) and a notice on the dashboard that is kept up to date
+ * with its position, and says when it was sent or cancelled. The next
+ * prompt is released when the session goes idle.
+ *
+ * The queue can be inspected and changed with control commands:
+ *   { "setting": "queue" }                                    list it
+ *   { "setting": "queue_cancel", "value": "#2" }              drop one ("all" drops every prompt)
+ *   { "setting": "queue_move", "value": { "id": 3, "position": 1 } }
+ */
+
+import type { VicoaClient } from './vicoa-client.js';
+
+export type QueuedPrompt = {
+  id: number;
+  text: string;
+  queuedAt: number;
+  notice: Promise<string | null>;        // Vicoa message ID of the position notice
+  lastNotice: string;
+};
+
+function preview(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > 120 ? `${line.slice(0, 120)}…` : line;
+}
+
+/**
+ * Parse a queue reference like "#3" or "3"
+ */
+export function parseQueueRef(ref: unknown): number | null {
+  const value = typeof ref === 'number' ? ref : Number.parseInt(String(ref ?? '').trim().replace(/^#/, ''), 10);
+  return Number.isInteger(value) && value > 0 ? value : null;
+}
+
+export class PromptQueue {
+  private vicoaClient: VicoaClient;
+  private log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+  private items: QueuedPrompt[] = [];
+  private nextId = 1;
+
+  constructor(
+    vicoaClient: VicoaClient,
+    log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void
+  ) {
+    this.vicoaClient = vicoaClient;
+    this.log = log;
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Hold a prompt until the session is idle; returns its queue entry
+   */
+  enqueue(text: string): QueuedPrompt {
+    const id = this.nextId++;
+    const content = this.positionNotice(id, text, this.items.length + 1, this.items.length + 1);
+    const item: QueuedPrompt = {
+      id,
+      text,
+      queuedAt: Date.now(),
+      notice: this.vicoaClient.sendMessage(content, false, { awaitDelivery: true }).catch((error) => {
+        this.log('warn', `[Vicoa] Failed to post queue notice: ${error}`);
+        return null;
+      }),
+      lastNotice: content,
+    };
+    this.items.push(item);
+    this.refreshPositions();
+    return item;
+  }
+
+  /**
+   * Take the next prompt to submit
+   */
+  shift(): QueuedPrompt | undefined {
+    const item = this.items.shift();
+    if (item) {
+      void this.setNotice(item, `**Sent** #${item.id}\n> ${preview(item.text)}`);
+      this.refreshPositions();
+    }
+    return item;
+  }
+
+  /**
+   * Drop one prompt by reference, or every prompt with "all". Returns what
+   * was removed, or null if the reference matched nothing.
+   */
+  cancel(ref: unknown): QueuedPrompt[] | null {
+    let removed: QueuedPrompt[];
+    if (String(ref ?? '').trim().toLowerCase() === 'all') {
+      removed = this.items;
+      this.items = [];
+    } else {
+      const id = parseQueueRef(ref);
+      const index = this.items.findIndex((item) => item.id === id);
+      if (index === -1) {
+        return null;
+      }
+      removed = this.items.splice(index, 1);
+    }
+
+    for (const item of removed) {
+      void this.setNotice(item, `**Cancelled** #${item.id}\n> ${preview(item.text)}`);
+    }
+    this.refreshPositions();
+    return removed;
+  }
+
+  /**
+   * Move a prompt to a 1-based position; false if it isn't queued
+   */
+  move(ref: unknown, position: number): boolean {
+    const id = parseQueueRef(ref);
+    const index = this.items.findIndex((item) => item.id === id);
+    if (index === -1 || !Number.isInteger(position) || position < 1) {
+      return false;
+    }
+
+    const [item] = this.items.splice(index, 1);
+    this.items.splice(Math.min(position, this.items.length + 1) - 1, 0, item);
+    this.refreshPositions();
+    return true;
+  }
+
+  /**
+   * The queue as a dashboard message
+   */
+  format(): string {
+    if (this.items.length === 0) {
+      return 'No prompts are queued.';
+    }
+    const lines = this.items.map((item, index) => `${index + 1}. #${item.id} — ${preview(item.text)}`);
+    return `**Queued prompts** (sent one at a time when OpenCode is idle)\n${lines.join('\n')}`;
+  }
+
+  private positionNotice(id: number, text: string, position: number, total: number): string {
+    return `**Queued** #${id} — position ${position} of ${total}, sent when OpenCode is idle\n> ${preview(text)}`;
+  }
+
+  private refreshPositions(): void {
+    this.items.forEach((item, index) => {
+      void this.setNotice(item, this.positionNotice(item.id, item.text, index + 1, this.items.length));
+    });
+  }
+
+  private async setNotice(item: QueuedPrompt, content: string): Promise<void> {
+    if (content === item.lastNotice) {
+      return;
+    }
+    item.lastNotice = content;
+    try {
+      const messageId = await item.notice;
+      if (messageId) {
+        await this.vicoaClient.updateMessage(messageId, content);
+      }
+    } catch (error) {
+      this.log('debug', `[Vicoa] Queue notice update failed: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * How dashboard prompts reach OpenCode
+ *
+ * With a TUI attached, a prompt for the session the terminal shows is typed
+ * into the TUI prompt box, so @mentions and slash commands resolve exactly
+ * as if typed locally. Everything else — background sessions, and every
+ * session under `opencode serve` where there is no TUI — goes through the
+ * session API with the selected agent and model and a message ID chosen
+ * up front, so the resulting chat.message can be matched to the submission.
+ *
+ * VICOA_PROMPT_MODE overrides the detection: `tui` always uses the prompt
+ * box for the shown session, `api` never does (default `auto`).
+ */
+
+import { randomBytes } from 'crypto';
+
+export type PromptMode = 'auto' | 'tui' | 'api';
+
+export type PromptModel = {
+  providerID: string;
+  modelID: string;
+};
+
+// OpenCode subcommands that run without a TUI
+const HEADLESS_COMMANDS = new Set(['serve', 'web', 'run', 'acp']);
+
+const BASE62 = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+let lastTimestamp = 0;
+let counter = 0;
+
+export function resolvePromptMode(value: string | undefined): PromptMode {
+  const mode = value?.trim().toLowerCase();
+  return mode === 'tui' || mode === 'api' ? mode : 'auto';
+}
+
+/**
+ * Whether this OpenCode process drives a TUI, judged by its subcommand
+ */
+export function isTuiAttached(argv: string[] = process.argv): boolean {
+  const command = argv.slice(2).find((arg) => !arg.startsWith('-'));
+  return !command || !HEADLESS_COMMANDS.has(command);
+}
+
+/**
+ * A new message ID in OpenCode's format ("msg_" + 12 hex digits of time and
+ * sequence + 14 random base62 characters). IDs sort by creation, which
+ * OpenCode relies on when ordering a session's messages.
+ */
+export function createMessageId(now: number = Date.now()): string {
+  if (now !== lastTimestamp) {
+    lastTimestamp = now;
+    counter = 0;
+  }
+  counter++;
+
+  const value = BigInt(now) * BigInt(0x1000) + BigInt(counter);
+  const time = Buffer.alloc(6);
+  for (let i = 0; i < 6; i++) {
+    time[i] = Number((value >> BigInt(40 - 8 * i)) & BigInt(0xff));
+  }
+
+  const random = Array.from(randomBytes(14), (byte) => BASE62[byte % 62]).join('');
+  return `msg_${time.toString('hex')}${random}`;
+}
@@ -0,0 +1,284 @@
+/**
+ * Maps OpenCode sessions to their own Vicoa agent instances
+ *
+ * Every OpenCode session gets its own dashboard conversation: its own
+ * VicoaClient, poller, streaming state and pending permissions. Events are
+ * routed by `sessionID`. The instance registered at plugin startup (before
+ * any session exists) is bound to the first session that shows up, so a
+ * plain `opencode` launch still maps to exactly one conversation. When that
+ * first session is one an earlier run mirrored, the startup instance is
+ * ended instead, unless the dashboard already used it.
+ *
+ * Child sessions (subagents spawned by the task tool) never get their own
+ * instance; they resolve to their root session. Sessions mirrored by an
+ * earlier run are re-attached to their previous instance (see session-store.ts).
+ */
+
+import type { Permission } from '@opencode-ai/sdk';
+import type { MessagePoller } from './message-poller.js';
+import type { MessageStreamer } from './message-streamer.js';
+import type { PermissionOption, PermissionResolution } from './permission.js';
+import type { PromptQueue } from './prompt-queue.js';
+import type { ToolCardTracker } from './tool-cards.js';
+import type { VicoaClient } from './vicoa-client.js';
+
+export type SessionStatusType = 'idle' | 'busy' | 'retry';
+
+// When a permission.asked event arrives we forward it to Vicoa as a
+// requires_user_input message and record the permission here so that when
+// the user's reply comes back through the poller we can call OpenCode's
+// permission-reply API instead of forwarding the text as a prompt.
+export interface PendingPermission {
+  permission: Permission;
+  options: PermissionOption[];           // the exact options we sent to the UI
+  vicoaMessageId: string | null;         // the Vicoa message we sent (updated once answered)
+  awaitingFeedback?: boolean;            // "Reject with instructions" picked; next message is the reason
+  autoReplying?: boolean;                // a timeout's reply to OpenCode is in flight
+}
+
+// Answered requests are kept for a while so a late dashboard reply to one
+// can be recognised and dropped instead of becoming a prompt.
+export interface ResolvedPermission extends PendingPermission {
+  resolution: PermissionResolution;
+  resolvedAt: number;
+}
+
+export type MessagePartsState = {
+  order: string[];
+  parts: Map<string, string>;
+  textByPartId: Map<string, string>;
+};
+
+export interface SessionContext {
+  sessionId: string | undefined;         // undefined until the startup instance is bound
+  agentInstanceId: string;
+  vicoaClient: VicoaClient;
+  poller: MessagePoller;
+  streamer: MessageStreamer;
+  toolCards: ToolCardTracker;
+  // Dashboard prompts waiting for the session to go idle
+  promptQueue: PromptQueue;
+  // Fallback check on OpenCode's status while prompts are queued
+  queueRecheck: ReturnType<typeof setTimeout> | null;
+  title: string | null;
+  status: SessionStatusType | undefined;
+  pendingPermissions: Map<string, PendingPermission>;
+  resolvedPermissions: Map<string, ResolvedPermission>;
+  // Track message parts by ID (for incremental updates)
+  messagePartsById: Map<string, MessagePartsState>;
+  // Assistant messages still being generated — only these are streamed live
+  // (user message parts flow through the same events but must never be sent).
+  inProgressAssistantMessageIds: Set<string>;
+  // Track OpenCode message IDs the dashboard already shows (avoid duplicates)
+  sentMessageIds: Set<string>;
+  sentMessageQueue: string[];
+}
+
+/**
+ * Fresh per-session bookkeeping for a new SessionContext
+ */
+export function createSessionState(): Pick<
+  SessionContext,
+  | 'pendingPermissions'
+  | 'resolvedPermissions'
+  | 'messagePartsById'
+  | 'inProgressAssistantMessageIds'
+  | 'sentMessageIds'
+  | 'sentMessageQueue'
+  | 'queueRecheck'
+> {
+  return {
+    pendingPermissions: new Map(),
+    resolvedPermissions: new Map(),
+    messagePartsById: new Map(),
+    inProgressAssistantMessageIds: new Set(),
+    sentMessageIds: new Set(),
+    sentMessageQueue: [],
+    queueRecheck: null,
+  };
+}
+
+export interface SessionRegistryOptions {
+  // Register a new Vicoa agent instance for a root session
+  create: (sessionId: string) => Promise<SessionContext | null>;
+  // Re-attach to the instance a previous run used for this session, if any
+  resume?: (sessionId: string) => Promise<SessionContext | null>;
+  // End the unused startup instance once a resumed session made it redundant
+  discard?: (context: SessionContext) => Promise<void>;
+  // Called whenever a session gets bound to an instance, however it happened.
+  // Events for the session wait until it settles.
+  onBind?: (context: SessionContext) => Promise<void> | void;
+  // Look up a session's parent (undefined for root sessions)
+  lookupParent: (sessionId: string) => Promise<string | undefined>;
+  log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+}
+
+export class SessionRegistry {
+  private sessions = new Map<string, Promise<SessionContext | null>>();
+  private parents = new Map<string, string>();
+  private unbound: SessionContext | null = null;
+  private unboundUsed = false;
+  private options: SessionRegistryOptions;
+
+  // The session the TUI is most likely showing: the last one a user message
+  // or session.created was seen for. Used for events without a sessionID.
+  activeSessionId: string | undefined;
+
+  constructor(options: SessionRegistryOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Provide the startup instance; the first root session seen adopts it
+   */
+  setUnbound(context: SessionContext): void {
+    this.unbound = context;
+    this.unboundUsed = false;
+  }
+
+  /**
+   * The dashboard sent something to the startup instance, so it is kept
+   * for the next new session even if a resumed one comes first
+   */
+  markUnboundUsed(): void {
+    this.unboundUsed = true;
+  }
+
+  /**
+   * Record that `childId` is a subagent session of `parentId`
+   */
+  linkChild(childId: string, parentId: string): void {
+    this.parents.set(childId, parentId);
+  }
+
+  isChild(sessionId: string): boolean {
+    return this.parents.has(sessionId);
+  }
+
+  parentOf(sessionId: string): string | undefined {
+    return this.parents.get(sessionId);
+  }
+
+  /**
+   * Follow parent links up to the root session
+   */
+  rootOf(sessionId: string): string {
+    let current = sessionId;
+    const seen = new Set<string>();
+    while (this.parents.has(current) && !seen.has(current)) {
+      seen.add(current);
+      current = this.parents.get(current)!;
+    }
+    return current;
+  }
+
+  /**
+   * Get the context an event for `sessionId` belongs to, registering a new
+   * agent instance the first time a root session is seen. Without a session
+   * ID, falls back to the active session (or the unbound startup instance).
+   */
+  resolve(sessionId: string | undefined): Promise<SessionContext | null> {
+    if (!sessionId) {
+      if (this.activeSessionId) {
+        return this.resolve(this.activeSessionId);
+      }
+      return Promise.resolve(this.unbound);
+    }
+
+    const root = this.rootOf(sessionId);
+    const existing = this.sessions.get(root);
+    if (existing) {
+      return existing;
+    }
+
+    // Stored before any await so concurrent events share one registration
+    const pending = this.bind(root);
+    this.sessions.set(root, pending);
+    return pending;
+  }
+
+  /**
+   * Drop a session; resolves with its context so the caller can end it.
+   * Child sessions only lose their parent link.
+   */
+  async remove(sessionId: string): Promise<SessionContext | null> {
+    if (this.parents.delete(sessionId)) {
+      return null;
+    }
+
+    const pending = this.sessions.get(sessionId);
+    this.sessions.delete(sessionId);
+    if (this.activeSessionId === sessionId) {
+      this.activeSessionId = undefined;
+    }
+    return pending ? await pending : null;
+  }
+
+  /**
+   * Every live context, including the unbound startup instance
+   */
+  async all(): Promise<SessionContext[]> {
+    const contexts = await Promise.all(this.sessions.values());
+    const result = contexts.filter((ctx): ctx is SessionContext => Boolean(ctx));
+    if (this.unbound) {
+      result.push(this.unbound);
+    }
+    return [...new Set(result)];
+  }
+
+  private async bind(sessionId: string): Promise<SessionContext | null> {
+    let parentId: string | undefined;
+    try {
+      parentId = await this.options.lookupParent(sessionId);
+    } catch (error) {
+      this.options.log('debug', `[Vicoa] Could not look up session ${sessionId}: ${error}`);
+    }
+
+    if (parentId) {
+      this.sessions.delete(sessionId);
+      this.linkChild(sessionId, parentId);
+      return this.resolve(parentId);
+    }
+
+    // A session we've mirrored before keeps its dashboard conversation, which
+    // leaves the startup instance as an empty extra one
+    const resumed = this.options.resume ? await this.options.resume(sessionId) : null;
+    if (resumed) {
+      await this.discardUnbound();
+      await this.options.onBind?.(resumed);
+      return resumed;
+    }
+
+    if (this.unbound) {
+      const context = this.unbound;
+      this.unbound = null;
+      context.sessionId = sessionId;
+      this.options.log('info', `[Vicoa] Bound session ${sessionId} to agent instance ${context.agentInstanceId}`);
+      await this.options.onBind?.(context);
+      return context;
+    }
+
+    const context = await this.options.create(sessionId);
+    if (!context) {
+      // Let a later event retry registration
+      this.sessions.delete(sessionId);
+      return null;
+    }
+    await this.options.onBind?.(context);
+    return context;
+  }
+
+  private async discardUnbound(): Promise<void> {
+    if (!this.unbound || this.unboundUsed || !this.options.discard) {
+      return;
+    }
+    const context = this.unbound;
+    this.unbound = null;
+    this.options.log('info', `[Vicoa] Ending unused startup agent instance ${context.agentInstanceId}`);
+    try {
+      await this.options.discard(context);
+    } catch (error) {
+      this.options.log('warn', `[Vicoa] Failed to end startup agent instance: ${error}`);
+    }
+  }
+}
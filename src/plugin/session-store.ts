@@ -0,0 +1,144 @@
+/**
+ * Local mapping of OpenCode sessions to Vicoa agent instances
+ *
+ * Persisted at ~/.vicoa/opencode-sessions.json so that continuing a session
+ * after a restart (`opencode --continue`, picking it from the session list)
+ * re-attaches to the same dashboard conversation instead of starting an
+ * empty one. Alongside the instance ID we keep the last Vicoa message ID
+ * (so polling resumes where it left off) and the OpenCode message IDs
+ * already forwarded (so nothing is posted twice).
+ *
+ * Several OpenCode processes may share the file; each write re-reads it and
+ * only replaces the sessions this process touched.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface StoredSession {
+  agentInstanceId: string;
+  lastMessageId: string | null;
+  sentMessageIds: string[];
+  updatedAt: number;
+}
+
+type SessionStoreFile = Record<string, StoredSession>;
+
+const MAX_STORED_SENT_IDS = 200;
+const STORE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const WRITE_DEBOUNCE_MS = 500;
+
+/**
+ * Get path to the session mapping file
+ */
+export function getSessionStorePath(): string {
+  return path.join(os.homedir(), '.vicoa', 'opencode-sessions.json');
+}
+
+function readStoreFile(filePath: string): SessionStoreFile {
+  try {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return data && typeof data === 'object' ? (data as SessionStoreFile) : {};
+  } catch {
+    return {};
+  }
+}
+
+export class SessionStore {
+  private filePath: string;
+  private sessions: SessionStoreFile;
+  private dirty = new Set<string>();
+  private writeTimer: NodeJS.Timeout | null = null;
+  private log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+
+  constructor(
+    log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void,
+    filePath: string = getSessionStorePath()
+  ) {
+    this.log = log;
+    this.filePath = filePath;
+    this.sessions = readStoreFile(filePath);
+  }
+
+  get(sessionId: string): StoredSession | undefined {
+    return this.sessions[sessionId];
+  }
+
+  update(sessionId: string, patch: Partial<Omit<StoredSession, 'updatedAt'>>): void {
+    const current = this.sessions[sessionId];
+    if (!current && !patch.agentInstanceId) {
+      return; // nothing to attach the data to
+    }
+
+    const next: StoredSession = {
+      agentInstanceId: patch.agentInstanceId ?? current.agentInstanceId,
+      lastMessageId: patch.lastMessageId !== undefined ? patch.lastMessageId : current?.lastMessageId ?? null,
+      sentMessageIds: patch.sentMessageIds ?? current?.sentMessageIds ?? [],
+      updatedAt: Date.now(),
+    };
+    next.sentMessageIds = next.sentMessageIds.slice(-MAX_STORED_SENT_IDS);
+
+    this.sessions[sessionId] = next;
+    this.markDirty(sessionId);
+  }
+
+  delete(sessionId: string): void {
+    if (!this.sessions[sessionId]) {
+      return;
+    }
+    delete this.sessions[sessionId];
+    this.markDirty(sessionId);
+  }
+
+  /**
+   * Write pending changes now (plugin shutdown)
+   */
+  flush(): void {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+    }
+    if (this.dirty.size === 0) {
+      return;
+    }
+
+    try {
+      // Merge into whatever other processes wrote since we loaded
+      const onDisk = readStoreFile(this.filePath);
+      for (const sessionId of this.dirty) {
+        if (this.sessions[sessionId]) {
+          onDisk[sessionId] = this.sessions[sessionId];
+        } else {
+          delete onDisk[sessionId];
+        }
+      }
+
+      const cutoff = Date.now() - STORE_TTL_MS;
+      for (const [sessionId, stored] of Object.entries(onDisk)) {
+        if (!stored?.updatedAt || stored.updatedAt < cutoff) {
+          delete onDisk[sessionId];
+        }
+      }
+
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(onDisk, null, 2), 'utf-8');
+      fs.renameSync(tmpPath, this.filePath);
+      this.dirty.clear();
+    } catch (error) {
+      this.log('warn', `[Vicoa] Failed to save session mapping: ${error}`);
+    }
+  }
+
+  private markDirty(sessionId: string): void {
+    this.dirty.add(sessionId);
+    if (!this.writeTimer) {
+      this.writeTimer = setTimeout(() => {
+        this.writeTimer = null;
+        this.flush();
+      }, WRITE_DEBOUNCE_MS);
+      this.writeTimer.unref?.();
+    }
+  }
+}
@@ -0,0 +1,340 @@
+/**
+ * Live tool-call cards on the Vicoa dashboard
+ *
+ * Each ToolPart (keyed by part ID) maps to exactly one dashboard message.
+ * The card is created when the part starts running, its elapsed time is
+ * refreshed while it runs, and it is updated in place with the formatted
+ * result once it completes or errors. Later updates for a finished part are
+ * ignored, so a completion is never posted twice.
+ *
+ * Task-tool cards also carry what the subagent does in its child session:
+ * the child's tool calls and latest message are folded into the card
+ * instead of the main transcript. A child is matched to its card through
+ * the `sessionId` the task tool records in its metadata, falling back to
+ * the newest running task card without a child yet.
+ *
+ * Tools the active verbosity profile hides get no card, and the profile
+ * decides how much of each result a card shows.
+ *
+ * Refresh interval is VICOA_TOOL_CARD_REFRESH_MS (default 10000).
+ */
+
+import type { ToolPart } from '@opencode-ai/sdk';
+import type { VicoaClient } from './vicoa-client.js';
+import type { Part } from '@opencode-ai/sdk';
+import {
+  formatSubagentActivity,
+  formatToolCard,
+  formatToolPart,
+  formatToolUsage,
+  type SubagentStep,
+} from './format-utils.js';
+import { parsePositiveInt } from './utils.js';
+import { BUILTIN_PROFILES, DEFAULT_PROFILE, isToolHidden, type VerbosityProfile } from './verbosity.js';
+
+type SubagentActivity = {
+  steps: Map<string, SubagentStep>;      // keyed by the child's tool part ID
+  lastMessage: string;
+};
+
+type ToolCard = {
+  part: ToolPart;
+  created: Promise<string | null>;       // resolves with the Vicoa message ID
+  lastSent: string;
+  finished: boolean;
+  subagent?: SubagentActivity;
+  pushTimer?: NodeJS.Timeout | null;
+};
+
+const MAX_FINISHED_CARDS = 500;
+// Subagent steps are batched briefly so a burst of child events is one edit
+const SUBAGENT_PUSH_DELAY_MS = 1500;
+
+function isTaskPart(part: ToolPart): boolean {
+  return part.tool.toLowerCase() === 'task';
+}
+
+function childSessionOf(part: ToolPart): string | undefined {
+  const metadata = 'metadata' in part.state ? part.state.metadata : undefined;
+  const sessionId = metadata?.sessionId;
+  return typeof sessionId === 'string' ? sessionId : undefined;
+}
+
+function renderCard(card: ToolCard, profile: VerbosityProfile): string {
+  const base = formatSafe((part) => formatToolCard(part, profile), card.part);
+  if (!card.subagent) {
+    return base;
+  }
+  const activity = formatSubagentActivity([...card.subagent.steps.values()], card.subagent.lastMessage);
+  return activity ? `${base}\n\n${activity}` : base;
+}
+
+function formatSafe(format: (part: ToolPart) => string, part: ToolPart): string {
+  try {
+    return format(part);
+  } catch {
+    return `Using tool: ${part.tool}`;
+  }
+}
+
+export class ToolCardTracker {
+  private vicoaClient: VicoaClient;
+  private log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+  private cards = new Map<string, ToolCard>();
+  // Child session ID -> part ID of the task card it reports into
+  private childCards = new Map<string, string>();
+  private finishedQueue: string[] = [];
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private refreshMs: number;
+  private getProfile: () => VerbosityProfile;
+
+  constructor(
+    vicoaClient: VicoaClient,
+    log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void,
+    getProfile: () => VerbosityProfile = () => BUILTIN_PROFILES[DEFAULT_PROFILE],
+    refreshMs: number = parsePositiveInt(process.env.VICOA_TOOL_CARD_REFRESH_MS, 10000)
+  ) {
+    this.vicoaClient = vicoaClient;
+    this.log = log;
+    this.getProfile = getProfile;
+    this.refreshMs = refreshMs;
+  }
+
+  /**
+   * Apply a message.part.updated event for a tool part
+   */
+  handle(part: ToolPart): void {
+    const status = part.state.status;
+    const card = this.cards.get(part.id);
+
+    if (card?.finished) {
+      return; // duplicate terminal update
+    }
+
+    const profile = this.getProfile();
+    if (!card && isToolHidden(profile, part.tool)) {
+      return;
+    }
+
+    if (status === 'running') {
+      if (card) {
+        card.part = part; // title/metadata may have filled in; next refresh shows it
+        this.linkFromMetadata(part);
+        return;
+      }
+
+      const content = formatSafe((toolPart) => formatToolCard(toolPart, profile), part);
+      this.cards.set(part.id, {
+        part,
+        created: this.createCard(content),
+        lastSent: content,
+        finished: false,
+        subagent: isTaskPart(part) ? { steps: new Map(), lastMessage: '' } : undefined,
+      });
+      this.linkFromMetadata(part);
+      this.ensureRefresh();
+      return;
+    }
+
+    if (status !== 'completed' && status !== 'error') {
+      return; // pending — nothing to show yet
+    }
+
+    if (!card) {
+      // Finished before we ever saw it running: post the result once
+      const content = formatSafe((toolPart) => formatToolPart(toolPart, profile), part);
+      this.cards.set(part.id, { part, created: Promise.resolve(null), lastSent: content, finished: true });
+      this.markFinished(part.id);
+      if (content) {
+        void this.vicoaClient.sendMessage(content);
+      }
+      return;
+    }
+
+    card.part = part;
+    card.finished = true;
+    if (card.pushTimer) {
+      clearTimeout(card.pushTimer);
+      card.pushTimer = null;
+    }
+    this.markFinished(part.id);
+    void this.push(card, renderCard(card, profile), true);
+  }
+
+  /**
+   * A subagent session started under `parentSessionId`; attach it to the
+   * task card that spawned it
+   */
+  linkChild(childSessionId: string, parentSessionId: string): void {
+    if (this.childCards.has(childSessionId)) {
+      return;
+    }
+
+    // Nested subagents report into the card their parent reports into
+    const viaParent = this.childCards.get(parentSessionId);
+    if (viaParent) {
+      this.childCards.set(childSessionId, viaParent);
+      return;
+    }
+
+    const linked = new Set(this.childCards.values());
+    let candidate: string | undefined;
+    for (const [partId, card] of this.cards) {
+      if (card.finished || !card.subagent || card.part.sessionID !== parentSessionId) continue;
+      const recorded = childSessionOf(card.part);
+      if (recorded === childSessionId) {
+        candidate = partId;
+        break;
+      }
+      if (!recorded && !linked.has(partId)) {
+        candidate = partId; // keep going: the newest one wins
+      }
+    }
+
+    if (candidate) {
+      this.childCards.set(childSessionId, candidate);
+    } else {
+      this.log('debug', `[Vicoa] No task card found for child session ${childSessionId}`);
+    }
+  }
+
+  /**
+   * Fold a part from a child session into its task card. Parts from unknown
+   * children are dropped so subagent chatter never reaches the transcript.
+   */
+  handleChildPart(childSessionId: string, part: Part): void {
+    const card = this.cardForChild(childSessionId);
+    if (!card?.subagent || card.finished) {
+      return;
+    }
+
+    const activity = card.subagent;
+    if (part.type === 'tool') {
+      if (isToolHidden(this.getProfile(), part.tool)) {
+        return;
+      }
+      activity.steps.set(part.id, {
+        label: formatSafe((toolPart) => formatToolUsage(toolPart.tool, toolPart.state.input ?? {}), part),
+        status: part.state.status,
+      });
+    } else if (part.type === 'text' && part.text.trim()) {
+      activity.lastMessage = part.text;
+    } else {
+      return;
+    }
+
+    this.schedulePush(card);
+  }
+
+  /**
+   * Record a child session error on its task card
+   */
+  handleChildError(childSessionId: string, message: string): void {
+    const card = this.cardForChild(childSessionId);
+    if (!card?.subagent || card.finished) {
+      return;
+    }
+    card.subagent.lastMessage = `Error: ${message}`;
+    this.schedulePush(card);
+  }
+
+  /**
+   * Stop refreshing running cards (plugin shutdown)
+   */
+  dispose(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    for (const card of this.cards.values()) {
+      if (card.pushTimer) {
+        clearTimeout(card.pushTimer);
+        card.pushTimer = null;
+      }
+    }
+  }
+
+  private cardForChild(childSessionId: string): ToolCard | undefined {
+    const partId = this.childCards.get(childSessionId);
+    return partId ? this.cards.get(partId) : undefined;
+  }
+
+  private linkFromMetadata(part: ToolPart): void {
+    const childSessionId = childSessionOf(part);
+    if (childSessionId && isTaskPart(part)) {
+      this.childCards.set(childSessionId, part.id);
+    }
+  }
+
+  private schedulePush(card: ToolCard): void {
+    if (card.pushTimer) {
+      return;
+    }
+    card.pushTimer = setTimeout(() => {
+      card.pushTimer = null;
+      if (!card.finished) {
+        void this.push(card, renderCard(card, this.getProfile()), false);
+      }
+    }, SUBAGENT_PUSH_DELAY_MS);
+    card.pushTimer.unref?.();
+  }
+
+  private createCard(content: string): Promise<string | null> {
+    return this.vicoaClient.sendMessage(content, false, { awaitDelivery: true }).catch((error) => {
+      this.log('warn', `[Vicoa] Failed to create tool card: ${error}`);
+      return null;
+    });
+  }
+
+  private async push(card: ToolCard, content: string, final: boolean): Promise<void> {
+    try {
+      const vicoaId = await card.created;
+      if (!vicoaId) {
+        // The card never made it to the dashboard; make sure the result does
+        if (final) {
+          await this.vicoaClient.sendMessage(content);
+        }
+        return;
+      }
+      if (content === card.lastSent) {
+        return;
+      }
+      card.lastSent = content;
+      await this.vicoaClient.updateMessage(vicoaId, content);
+    } catch (error) {
+      this.log('debug', `[Vicoa] Tool card update failed: ${error}`);
+    }
+  }
+
+  private ensureRefresh(): void {
+    if (this.refreshTimer) {
+      return;
+    }
+
+    this.refreshTimer = setInterval(() => {
+      let running = 0;
+      for (const card of this.cards.values()) {
+        if (card.finished) continue;
+        running += 1;
+        void this.push(card, renderCard(card, this.getProfile()), false);
+      }
+      if (running === 0) {
+        this.dispose();
+      }
+    }, this.refreshMs);
+    this.refreshTimer.unref?.();
+  }
+
+  private markFinished(partId: string): void {
+    this.finishedQueue.push(partId);
+    if (this.finishedQueue.length > MAX_FINISHED_CARDS) {
+      const evicted = this.finishedQueue.shift();
+      if (evicted) {
+        this.cards.delete(evicted);
+        for (const [childSessionId, partId] of this.childCards) {
+          if (partId === evicted) this.childCards.delete(childSessionId);
+        }
+      }
+    }
+  }
+}
@@ -14,3 +14,20 @@ export function log(client: any, level: 'debug' | 'info' | 'warn' | 'error', mes
     },
   });
 }
+
+/**
+ * Parse a positive integer from an environment variable, falling back when
+ * the value is missing or invalid
+ */
+export function parsePositiveInt(value: string | undefined, fallback: number): number {
+  if (!value) {
+    return fallback;
+  }
+
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return fallback;
+  }
+
+  return parsed;
+}
@@ -0,0 +1,192 @@
+/**
+ * Verbosity profiles: how much of a session is forwarded to the dashboard
+ *
+ * A profile decides which tool calls get a card, whether their results are
+ * included and how long those may be, how reasoning is shown, which file
+ * parts are forwarded and whether patch summaries are. Four profiles are
+ * built in — minimal, normal (the default), verbose and debug — and
+ * projects can tune them or add their own in the plugin config:
+ *
+ *   { "verbosity": {
+ *     "profile": "quiet",
+ *     "profiles": {
+ *       "quiet": { "extends": "minimal", "hideTools": ["todowrite"] },
+ *       "normal": { "truncate": { "bash": 2000 } }
+ *     }
+ *   } }
+ *
+ * The active profile can be switched from the dashboard with the
+ * `verbosity` control setting.
+ */
+
+export type ReasoningMode = 'hidden' | 'summary' | 'full';
+export type FileMode = 'none' | 'images' | 'all';
+
+export interface VerbosityProfile {
+  // Tools that get no card at all; "*" hides every tool
+  hideTools: string[];
+  // Include tool results at all
+  showResults: boolean;
+  // Tools whose result line is dropped even when results are shown
+  suppressResults: string[];
+  // Result length limits per tool, "*" for any other tool; unlisted = full
+  truncate: Record<string, number>;
+  reasoning: ReasoningMode;
+  // Characters of reasoning shown in `summary` mode
+  reasoningLimit: number;
+  files: FileMode;
+  patches: boolean;
+}
+
+export type VerbosityProfileConfig = Partial<VerbosityProfile> & {
+  // Built-in or earlier-defined profile to start from (default "normal")
+  extends?: string;
+};
+
+export interface VerbosityConfig {
+  profile?: string;
+  profiles?: Record<string, VerbosityProfileConfig>;
+}
+
+// Read-side tools dump raw file/list content; write-side ones answer with a
+// boilerplate confirmation like "Edit applied successfully."
+const READ_TOOLS = ['read', 'notebookread', 'list', 'ls', 'glob', 'grep', 'todoread', 'lsp'];
+const WRITE_TOOLS = ['write', 'edit', 'multiedit', 'patch', 'notebookedit', 'todowrite'];
+
+export const DEFAULT_PROFILE = 'normal';
+
+export const BUILTIN_PROFILES: Record<string, VerbosityProfile> = {
+  minimal: {
+    hideTools: READ_TOOLS,
+    showResults: false,
+    suppressResults: [],
+    truncate: {},
+    reasoning: 'hidden',
+    reasoningLimit: 0,
+    files: 'none',
+    patches: false,
+  },
+  normal: {
+    hideTools: [],
+    showResults: true,
+    suppressResults: [...READ_TOOLS, ...WRITE_TOOLS],
+    truncate: {},
+    reasoning: 'summary',
+    reasoningLimit: 200,
+    files: 'images',
+    patches: false,
+  },
+  verbose: {
+    hideTools: [],
+    showResults: true,
+    suppressResults: WRITE_TOOLS,
+    truncate: { '*': 2000 },
+    reasoning: 'full',
+    reasoningLimit: 200,
+    files: 'all',
+    patches: true,
+  },
+  debug: {
+    hideTools: [],
+    showResults: true,
+    suppressResults: [],
+    truncate: {},
+    reasoning: 'full',
+    reasoningLimit: 200,
+    files: 'all',
+    patches: true,
+  },
+};
+
+function includesTool(tools: string[], toolName: string): boolean {
+  const name = toolName.toLowerCase();
+  return tools.some((tool) => tool === '*' || tool.toLowerCase() === name);
+}
+
+/**
+ * Whether a tool call should get no dashboard card at all
+ */
+export function isToolHidden(profile: VerbosityProfile, toolName: string): boolean {
+  return includesTool(profile.hideTools, toolName);
+}
+
+/**
+ * Whether a finished tool call's result line is forwarded
+ */
+export function shouldShowToolResult(profile: VerbosityProfile, toolName: string): boolean {
+  return profile.showResults && !includesTool(profile.suppressResults, toolName);
+}
+
+/**
+ * Result length limit for a tool, or null to forward it in full
+ */
+export function getTruncateLimit(profile: VerbosityProfile, toolName: string): number | null {
+  const name = toolName.toLowerCase();
+  const match = Object.entries(profile.truncate).find(([tool]) => tool.toLowerCase() === name);
+  const limit = match ? match[1] : profile.truncate['*'];
+  return typeof limit === 'number' && limit > 0 ? limit : null;
+}
+
+function resolveProfiles(
+  configured: Record<string, VerbosityProfileConfig>,
+  log?: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void
+): Map<string, VerbosityProfile> {
+  const profiles = new Map(Object.entries(BUILTIN_PROFILES));
+
+  for (const [rawName, config] of Object.entries(configured)) {
+    if (!config || typeof config !== 'object') {
+      continue;
+    }
+    const name = rawName.toLowerCase();
+    const { extends: baseName, ...overrides } = config;
+    // An override of a built-in profile starts from that profile
+    const base = profiles.get((baseName ?? (BUILTIN_PROFILES[name] ? name : DEFAULT_PROFILE)).toLowerCase());
+    if (!base) {
+      log?.('warn', `[Vicoa] Ignoring verbosity profile "${rawName}": unknown base profile "${baseName}"`);
+      continue;
+    }
+    profiles.set(name, { ...base, ...overrides, truncate: { ...base.truncate, ...overrides.truncate } });
+  }
+
+  return profiles;
+}
+
+export class VerbositySettings {
+  private profiles: Map<string, VerbosityProfile>;
+  private activeName: string;
+
+  constructor(
+    config: VerbosityConfig = {},
+    log?: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void
+  ) {
+    this.profiles = resolveProfiles(config.profiles ?? {}, log);
+    this.activeName = DEFAULT_PROFILE;
+    if (config.profile && !this.select(config.profile)) {
+      log?.('warn', `[Vicoa] Unknown verbosity profile "${config.profile}", using ${DEFAULT_PROFILE}`);
+    }
+  }
+
+  get name(): string {
+    return this.activeName;
+  }
+
+  get profile(): VerbosityProfile {
+    return this.profiles.get(this.activeName)!;
+  }
+
+  get names(): string[] {
+    return [...this.profiles.keys()];
+  }
+
+  /**
+   * Switch the active profile; false if no profile has that name
+   */
+  select(name: string): boolean {
+    const key = name.trim().toLowerCase();
+    if (!this.profiles.has(key)) {
+      return false;
+    }
+    this.activeName = key;
+    return true;
+  }
+}
@@ -5,12 +5,31 @@
  * It mimics the Python VicoaClient functionality but runs in TypeScript/Node.js.
  */
 
+import { OutboundDispatcher, type SubmitOptions } from './outbound-dispatcher.js';
+import type { DeliveryOutcome, OutboxEntry } from './outbox.js';
+import type { PollThrottle } from './poll-scheduler.js';
+import type { Catalog } from './catalog.js';
+import type { MessageCipher } from './encryption.js';
+import type { Redactor } from './redaction.js';
+import { parsePositiveInt } from './utils.js';
+
 export interface VicoaClientConfig {
   apiKey: string;
   baseUrl: string;
   agentType: string;
   agentInstanceId: string;
   logFunc?: (level: string, msg: string) => void;
+  onLastMessageIdChange?: (messageId: string) => void;
+  // Applied to every outbound text before it is queued
+  redactor?: Redactor;
+  // Set when end-to-end encryption is on: seals outbound message content and
+  // opens dashboard messages
+  cipher?: MessageCipher;
+}
+
+export interface MessageStreamHandlers {
+  onOpen?: () => void;
+  onMessages: (messages: VicoaMessage[]) => Promise<void>;
 }
 
 export interface VicoaMessage {
@@ -19,33 +38,116 @@ export interface VicoaMessage {
   sender_type: 'USER' | 'AGENT';
   requires_user_input: boolean;
   created_at: string;
+  // Set when the user answered a specific message on the dashboard
+  reply_to_message_id?: string | null;
+  // Set (and content emptied) when an encrypted message couldn't be opened
+  decryption_error?: string;
+}
+
+// Human-readable labels for outbox entry kinds, used in log lines
+const ENTRY_LABELS: Record<OutboxEntry['kind'], string> = {
+  agent_message: 'send message',
+  user_message: 'send user message',
+  message_update: 'update message',
+  status: 'update status',
+  rename: 'update agent instance name',
+  request_input: 'request user input',
+};
+
+/**
+ * Parse one server-sent event frame into the user messages it carries.
+ * Accepts a single message, an array, or a `{ messages: [...] }` envelope;
+ * heartbeats, comments and other event types yield nothing.
+ */
+function parseStreamFrame(frame: string): VicoaMessage[] {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of frame.split(/\r?\n/)) {
+    if (!line || line.startsWith(':')) {
+      continue;
+    }
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  if (event !== 'message' || dataLines.length === 0) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(dataLines.join('\n'));
+    const messages: unknown[] = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.messages) ? parsed.messages : [parsed];
+    return messages.filter(
+      (msg): msg is VicoaMessage => Boolean(msg && typeof msg === 'object' && typeof (msg as VicoaMessage).id === 'string'),
+    );
+  } catch {
+    return [];
+  }
 }
 
-function parsePositiveInt(value: string | undefined, fallback: number): number {
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null): number | null {
   if (!value) {
-    return fallback;
+    return null;
   }
 
-  const parsed = Number.parseInt(value, 10);
-  if (!Number.isFinite(parsed) || parsed <= 0) {
-    return fallback;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return Math.round(seconds * 1000);
   }
 
-  return parsed;
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return null;
+  }
+  return Math.max(0, date - Date.now());
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
 }
 
 export class VicoaClient {
   private config: VicoaClientConfig;
-  public lastMessageId: string | null = null;
+  private _lastMessageId: string | null = null;
   private log: (level: string, msg: string) => void;
   private requestTimeoutMs: number;
   private pollTimeoutMs: number;
+  private streamIdleTimeoutMs: number;
+  private pollThrottle: PollThrottle | null = null;
+  private dispatcher: OutboundDispatcher;
+
+  /**
+   * Latest Vicoa message ID seen in this conversation (sent or received);
+   * polling resumes from here
+   */
+  get lastMessageId(): string | null {
+    return this._lastMessageId;
+  }
+
+  set lastMessageId(messageId: string | null) {
+    if (messageId === this._lastMessageId) {
+      return;
+    }
+    this._lastMessageId = messageId;
+    if (messageId) {
+      this.config.onLastMessageIdChange?.(messageId);
+    }
+  }
 
   constructor(config: VicoaClientConfig) {
     this.config = config;
     this.log = config.logFunc || ((level, msg) => console.log(`[${level}] ${msg}`));
     this.requestTimeoutMs = parsePositiveInt(process.env.VICOA_HTTP_TIMEOUT_MS, 10000);
     this.pollTimeoutMs = parsePositiveInt(process.env.VICOA_POLL_TIMEOUT_MS, 5000);
+    this.streamIdleTimeoutMs = parsePositiveInt(process.env.VICOA_STREAM_IDLE_TIMEOUT_MS, 90000);
+    this.dispatcher = new OutboundDispatcher(config.agentInstanceId, (entry) => this.deliver(entry), this.log);
   }
 
   private async fetchWithTimeout(
@@ -73,6 +175,118 @@ export class VicoaClient {
     }
   }
 
+  /**
+   * Strip secrets from outbound text; what was removed is logged by rule
+   * name only
+   */
+  private redact(text: string): string {
+    if (!this.config.redactor) {
+      return text;
+    }
+    const { text: redacted, matches } = this.config.redactor.redact(text);
+    if (matches.length > 0) {
+      this.log('info', `Redacted ${matches.length} secret${matches.length === 1 ? '' : 's'} (${[...new Set(matches)].join(', ')})`);
+    }
+    return redacted;
+  }
+
+  /**
+   * Prepare message content for the wire: redact, then encrypt if enabled
+   */
+  private seal(content: string): string {
+    const redacted = this.redact(content);
+    return this.config.cipher ? this.config.cipher.encrypt(redacted) : redacted;
+  }
+
+  /**
+   * Decrypt dashboard messages when encryption is on. A message that can't
+   * be opened is passed on with empty content and `decryption_error` set.
+   */
+  private open(messages: VicoaMessage[]): VicoaMessage[] {
+    const cipher = this.config.cipher;
+    if (!cipher) {
+      return messages;
+    }
+
+    return messages.map((message) => {
+      if (!message.content) {
+        return message;
+      }
+      try {
+        return { ...message, content: cipher.decrypt(message.content) };
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        this.log('error', `Could not decrypt message ${message.id}: ${reason}`);
+        return { ...message, content: '', decryption_error: reason };
+      }
+    });
+  }
+
+  /**
+   * Perform one attempt of an outbound write and classify the result
+   */
+  private async deliver(entry: OutboxEntry): Promise<DeliveryOutcome> {
+    const label = ENTRY_LABELS[entry.kind];
+
+    let response: Response;
+    try {
+      response = await this.fetchWithTimeout(`${this.config.baseUrl}${entry.path}`, {
+        method: entry.method,
+        headers: {
+          'Authorization': `Bearer ${this.config.apiKey}`,
+          'Content-Type': 'application/json',
+          // Same key on every retry so the backend can drop duplicates
+          'Idempotency-Key': entry.id,
+          'X-Vicoa-Sequence': String(entry.sequence),
+        },
+        body: JSON.stringify(entry.body),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        const message = `Failed to ${label}: ${response.statusText} - ${error}`;
+        return isRetryableStatus(response.status)
+          ? { status: 'retry', error: message }
+          : { status: 'dropped', error: message };
+      }
+    } catch (error) {
+      return { status: 'retry', error: `Error trying to ${label}: ${error}` };
+    }
+
+    // The backend accepted the write; a body we can't read must not make
+    // us send it again
+    let result: Record<string, unknown> = {};
+    try {
+      const text = await response.text();
+      const parsed: unknown = text ? JSON.parse(text) : {};
+      if (parsed && typeof parsed === 'object') {
+        result = parsed as Record<string, unknown>;
+      }
+    } catch (error) {
+      this.log('warn', `Unreadable response after trying to ${label}: ${error}`);
+    }
+
+    // Update last message ID for polling. Queues adopted from dead processes
+    // carry other instances' messages, which must not move our cursor.
+    if (
+      (entry.kind === 'agent_message' || entry.kind === 'user_message')
+      && entry.body.agent_instance_id === this.config.agentInstanceId
+      && typeof result.message_id === 'string'
+    ) {
+      this.lastMessageId = result.message_id;
+    }
+
+    return { status: 'delivered', result };
+  }
+
+  /**
+   * Begin replaying writes queued on disk (including those left behind by a
+   * previous OpenCode run). Call once the agent instance is registered.
+   */
+  startOutbox(): void {
+    this.dispatcher.start();
+  }
+
   /**
    * Register agent instance with Vicoa backend
    */
@@ -101,6 +315,35 @@ export class VicoaClient {
     return (await response.json()) as { agent_instance_id: string };
   }
 
+  /**
+   * Re-attach to an agent instance registered by a previous run by marking
+   * it active again. Returns false if the backend no longer knows it.
+   */
+  async attachAgentInstance(): Promise<boolean> {
+    const response = await this.fetchWithTimeout(
+      `${this.config.baseUrl}/api/v1/agent-instances/${this.config.agentInstanceId}/status`,
+      {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${this.config.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status: 'ACTIVE' }),
+      }
+    );
+
+    if (response.status === 404 || response.status === 410) {
+      return false;
+    }
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Failed to attach agent instance: ${response.statusText} - ${error}`);
+    }
+
+    return true;
+  }
+
   /**
     * Sync custom slash commands to Vicoa backend
     */
@@ -131,47 +374,82 @@ export class VicoaClient {
   }
 
   /**
-   * Send agent message to Vicoa dashboard
-   */
-  async sendMessage(content: string, requiresUserInput: boolean = false): Promise<string | null> {
+    * Sync available agents, models and MCP servers to Vicoa backend.
+    * Returns whether the backend accepted it.
+    */
+  async syncCatalog(agentType: string, catalog: Catalog): Promise<boolean> {
     try {
-      const response = await this.fetchWithTimeout(`${this.config.baseUrl}/api/v1/messages/agent`, {
+      const response = await this.fetchWithTimeout(`${this.config.baseUrl}/api/v1/catalog/sync`, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${this.config.apiKey}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          content,
-          agent_type: this.config.agentType,
-          agent_instance_id: this.config.agentInstanceId,
-          requires_user_input: requiresUserInput,
+          agent_type: agentType,
+          ...catalog,
+          // Connection errors can echo server URLs, credentials included
+          mcp_servers: catalog.mcp_servers.map((server) =>
+            server.error ? { ...server, error: this.redact(server.error) } : server
+          ),
         }),
       });
 
       if (!response.ok) {
         const error = await response.text();
-        this.log('warn', `Failed to send message: ${response.statusText} - ${error}`);
-        return null;
+        this.log('warn', `Failed to sync catalog: ${response.statusText} - ${error}`);
+        return false;
       }
+      return true;
+    } catch (error) {
+      this.log('warn', `Error syncing catalog: ${error}`);
+      return false;
+    }
+  }
 
-      const result = (await response.json()) as {
-        success: boolean;
-        agent_instance_id: string;
-        message_id: string;
-        queued_user_messages: VicoaMessage[];
-      };
+  /**
+   * Send agent message to Vicoa dashboard
+   */
+  async sendMessage(
+    content: string,
+    requiresUserInput: boolean = false,
+    options: SubmitOptions = {}
+  ): Promise<string | null> {
+    const result = await this.dispatcher.submit({
+      kind: 'agent_message',
+      method: 'POST',
+      path: '/api/v1/messages/agent',
+      body: {
+        content: this.seal(content),
+        agent_type: this.config.agentType,
+        agent_instance_id: this.config.agentInstanceId,
+        requires_user_input: requiresUserInput,
+      },
+    }, options);
 
-      // Update last message ID for polling
-      if (result.message_id) {
-        this.lastMessageId = result.message_id;
-      }
+    return typeof result?.message_id === 'string' ? result.message_id : null;
+  }
 
-      return result.message_id;
-    } catch (error) {
-      this.log('warn', `Error sending message: ${error}`);
-      return null;
-    }
+  /**
+   * Replace the content of an agent message already on the dashboard
+   * (used to stream text in as it is generated, and to close out answered
+   * permission requests)
+   */
+  async updateMessage(
+    messageId: string,
+    content: string,
+    options: { requiresUserInput?: boolean } = {}
+  ): Promise<void> {
+    await this.dispatcher.submit({
+      kind: 'message_update',
+      method: 'PATCH',
+      path: `/api/v1/messages/${messageId}`,
+      body: {
+        content: this.seal(content),
+        agent_instance_id: this.config.agentInstanceId,
+        ...(options.requiresUserInput !== undefined ? { requires_user_input: options.requiresUserInput } : {}),
+      },
+    });
   }
 
   /**
@@ -179,40 +457,17 @@ export class VicoaClient {
    * This is used when the user types a message directly in the OpenCode terminal
    */
   async sendUserMessage(content: string): Promise<string | null> {
-    try {
-      const response = await this.fetchWithTimeout(`${this.config.baseUrl}/api/v1/messages/user`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.config.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          content,
-          agent_instance_id: this.config.agentInstanceId,
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        this.log('warn', `Failed to send user message: ${response.statusText} - ${error}`);
-        return null;
-      }
-
-      const result = (await response.json()) as {
-        success: boolean;
-        message_id: string;
-      };
-
-      // Update last message ID
-      if (result.message_id) {
-        this.lastMessageId = result.message_id;
-      }
+    const result = await this.dispatcher.submit({
+      kind: 'user_message',
+      method: 'POST',
+      path: '/api/v1/messages/user',
+      body: {
+        content: this.seal(content),
+        agent_instance_id: this.config.agentInstanceId,
+      },
+    });
 
-      return result.message_id;
-    } catch (error) {
-      this.log('warn', `Error sending user message: ${error}`);
-      return null;
-    }
+    return typeof result?.message_id === 'string' ? result.message_id : null;
   }
 
   /**
@@ -233,12 +488,20 @@ export class VicoaClient {
         },
       }, this.pollTimeoutMs);
 
+      const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+      if (response.status === 429 || retryAfterMs !== null) {
+        this.pollThrottle = { rateLimited: response.status === 429, retryAfterMs };
+      }
+
       if (!response.ok) {
         // Polling errors are non-fatal
         this.log('debug', `Failed to poll messages: ${response.statusText}`);
         return [];
       }
 
+      // The backend is reachable again — replay anything queued right away
+      this.dispatcher.nudge();
+
       const result = (await response.json()) as {
         agent_instance_id: string;
         messages: VicoaMessage[];
@@ -251,7 +514,7 @@ export class VicoaClient {
         return [];
       }
 
-      const messages = result.messages || [];
+      const messages = this.open(result.messages || []);
 
       // Update last message ID
       if (messages.length > 0) {
@@ -267,28 +530,114 @@ export class VicoaClient {
   }
 
   /**
-   * Request user input (equivalent to Claude wrapper's request_user_input)
+   * Return and clear any throttling the backend asked for on the last poll
    */
-  async requestUserInput(messageId: string): Promise<void> {
+  consumePollThrottle(): PollThrottle | null {
+    const throttle = this.pollThrottle;
+    this.pollThrottle = null;
+    return throttle;
+  }
+
+  /**
+   * Stream pending user messages from the Vicoa dashboard over server-sent
+   * events. Resolves when the server closes the stream and rejects when it
+   * can't be opened, goes silent for too long, or `signal` is aborted.
+   */
+  async streamMessages(handlers: MessageStreamHandlers, signal: AbortSignal): Promise<void> {
+    const url = new URL(`${this.config.baseUrl}/api/v1/messages/stream`);
+    url.searchParams.set('agent_instance_id', this.config.agentInstanceId);
+    if (this.lastMessageId) {
+      url.searchParams.set('last_read_message_id', this.lastMessageId);
+    }
+
+    // Connecting gets the usual request timeout, so a backend without
+    // streaming (or a proxy holding the request) falls back to polling
+    // quickly. Once open, the idle timer covers silent connections; the
+    // server is expected to send heartbeat comments while idle.
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    let connected = false;
+    let idleHandle: NodeJS.Timeout | undefined;
+    const resetIdle = () => {
+      clearTimeout(idleHandle);
+      idleHandle = setTimeout(abort, connected ? this.streamIdleTimeoutMs : this.requestTimeoutMs);
+    };
+
+    signal.addEventListener('abort', abort);
+    resetIdle();
+
     try {
-      const response = await this.fetchWithTimeout(
-        `${this.config.baseUrl}/api/v1/messages/${messageId}/request-input`,
-        {
-          method: 'PATCH',
-          headers: {
-            'Authorization': `Bearer ${this.config.apiKey}`,
-          },
+      const response = await fetch(url.toString(), {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${this.config.apiKey}`,
+          'Accept': 'text/event-stream',
+        },
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Failed to open message stream: ${response.status} ${response.statusText}`);
+      }
+
+      connected = true;
+      resetIdle();
+      handlers.onOpen?.();
+      this.dispatcher.nudge();
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) {
+          return;
         }
-      );
+        resetIdle();
 
-      if (!response.ok) {
-        this.log('warn', `Failed to request user input: ${response.statusText}`);
+        buffer += decoder.decode(value, { stream: true });
+        const frames = buffer.split(/\r?\n\r?\n/);
+        buffer = frames.pop() ?? '';
+
+        for (const frame of frames) {
+          const messages = parseStreamFrame(frame);
+          if (messages.length === 0) {
+            continue;
+          }
+
+          this.lastMessageId = messages[messages.length - 1].id;
+          await handlers.onMessages(this.open(messages));
+        }
       }
     } catch (error) {
-      this.log('warn', `Error requesting user input: ${error}`);
+      if (error instanceof Error && error.name === 'AbortError') {
+        if (signal.aborted) {
+          throw new Error('Message stream closed');
+        }
+        throw new Error(connected
+          ? `Message stream idle for ${this.streamIdleTimeoutMs}ms`
+          : `Message stream did not open within ${this.requestTimeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(idleHandle);
+      signal.removeEventListener('abort', abort);
     }
   }
 
+  /**
+   * Request user input (equivalent to Claude wrapper's request_user_input)
+   */
+  async requestUserInput(messageId: string): Promise<void> {
+    await this.dispatcher.submit({
+      kind: 'request_input',
+      method: 'PATCH',
+      path: `/api/v1/messages/${messageId}/request-input`,
+      body: {},
+    });
+  }
+
   /**
    * Update agent instance status
    */
@@ -304,56 +653,33 @@ export class VicoaClient {
       | 'DISCONNECTED'
       | 'DELETED'
   ): Promise<void> {
-    try {
-      const response = await this.fetchWithTimeout(
-        `${this.config.baseUrl}/api/v1/agent-instances/${this.config.agentInstanceId}/status`,
-        {
-          method: 'PUT',
-          headers: {
-            'Authorization': `Bearer ${this.config.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ status }),
-        }
-      );
-
-      if (!response.ok) {
-        this.log('warn', `Failed to update status: ${response.statusText}`);
-      }
-    } catch (error) {
-      this.log('warn', `Error updating status: ${error}`);
-    }
+    await this.dispatcher.submit({
+      kind: 'status',
+      method: 'PUT',
+      path: `/api/v1/agent-instances/${this.config.agentInstanceId}/status`,
+      body: { status },
+    });
   }
 
   /**
    * Update agent instance title/name
    */
   async updateAgentInstanceName(name: string): Promise<void> {
-    try {
-      const response = await this.fetchWithTimeout(
-        `${this.config.baseUrl}/api/v1/agent-instances/${this.config.agentInstanceId}`,
-        {
-          method: 'PATCH',
-          headers: {
-            'Authorization': `Bearer ${this.config.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ name }),
-        }
-      );
-
-      if (!response.ok) {
-        this.log('warn', `Failed to update agent instance name: ${response.statusText}`);
-      }
-    } catch (error) {
-      this.log('warn', `Error updating agent instance name: ${error}`);
-    }
+    await this.dispatcher.submit({
+      kind: 'rename',
+      method: 'PATCH',
+      path: `/api/v1/agent-instances/${this.config.agentInstanceId}`,
+      body: { name: this.redact(name) },
+    });
   }
 
   /**
    * End session
    */
   async endSession(): Promise<void> {
+    // Give queued writes one last chance so the transcript is complete;
+    // whatever still fails stays on disk for the next run to replay.
+    await this.dispatcher.flush();
     await this.updateStatus('COMPLETED');
 
     try {
@@ -377,5 +703,7 @@ export class VicoaClient {
     } catch (error) {
       this.log('warn', `Error ending session: ${error}`);
     }
+
+    this.dispatcher.stop();
   }
 }